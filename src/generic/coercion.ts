@@ -6,20 +6,175 @@ import { type Convert } from './validation'
  */
 export type UntypedObject = Record<string, any>
 
+/**
+ * Describes a single change made to a value during coercion.
+ * @interface
+ * @property {Array<string | number>} instancePath - location of the changed value within the coerced value
+ * @property {string | undefined} keyword - schema property that called for the change
+ * @property {any} before - value prior to the change
+ * @property {any} after - value after the change, undefined if the value was removed
+ * @property {string} reason - short description of the change
+ */
+export interface CoercionChange {
+  instancePath: Array<string | number>
+  keyword?: string
+  before: any
+  after: any
+  reason: string
+}
+
+/**
+ * Pairs a coerced value with the changes made to produce it.
+ * @interface
+ * @template ValueType
+ * @property {ValueType} value - coerced value
+ * @property {CoercionChange[]} changes - changes in the order they were made
+ */
+export interface CoercionReport<ValueType = any> {
+  value: ValueType
+  changes: CoercionChange[]
+}
+
+const coercionReports: Array<{ depth: number, changes: CoercionChange[] }> = []
+const coercionPath: Array<string | number> = []
+
+/**
+ * Runs a callback that coerces a value, collecting the changes recorded along the way.
+ * Reports and nested paths are kept on module level stacks, so changes made by any enforcer the callback runs end up in the innermost report.
+ * Wrap calls to unrelated enforcers in their own reportCoercion call to keep their changes out of the outer report.
+ * @function
+ * @template T
+ * @param {() => T} callback - function that performs the coercion
+ * @returns {CoercionReport<T>}
+ */
+export function reportCoercion<T> (
+  callback: () => T
+): CoercionReport<T> {
+  const report = { depth: coercionPath.length, changes: [] }
+  coercionReports.push(report)
+  try {
+    const value = callback()
+    return { value, changes: report.changes }
+  } finally {
+    coercionReports.pop()
+  }
+}
+
+/**
+ * Checks if coercion changes are currently being recorded.
+ * @function
+ * @returns {boolean}
+ */
+export function isReportingCoercion (): boolean {
+  return coercionReports.length > 0
+}
+
+/**
+ * Adds a change to the current coercion report, if any.
+ * The change's instance path is treated as relative to the value currently being coerced, and changes that leave the value equivalent are ignored.
+ * @function
+ * @param {Omit<CoercionChange, 'instancePath'> & Partial<CoercionChange>} change - change to be recorded
+ */
+export function recordCoercionChange (
+  change: Omit<CoercionChange, 'instancePath'> & Partial<CoercionChange>
+): void {
+  const report = coercionReports[coercionReports.length - 1]
+  if (report == null || isEquivalentTo(change.before, change.after)) return
+  report.changes.push({
+    ...change,
+    instancePath: coercionPath.slice(report.depth).concat(change.instancePath ?? [])
+  })
+}
+
+/**
+ * Runs a callback that coerces a nested value, so any changes it records are placed at that value's location.
+ * @function
+ * @template T
+ * @param {string | number} key - property name or index of the nested value
+ * @param {() => T} callback - function that coerces the nested value
+ * @returns {T}
+ */
+export function coerceNested<T> (
+  key: string | number,
+  callback: () => T
+): T {
+  coercionPath.push(key)
+  try {
+    return callback()
+  } finally {
+    coercionPath.pop()
+  }
+}
+
+/**
+ * Applies a coercion callback on behalf of a keyword.
+ * When reporting, changes without a keyword are attributed to the provided keyword, and a change is recorded for the whole value if the callback changed it without recording anything itself.
+ * @function
+ * @template ValueType
+ * @param {Convert<ValueType>} coerce - callback to be applied
+ * @param {ValueType} value - value to be coerced
+ * @param {string | undefined} keyword - schema property the callback enforces
+ * @returns {ValueType}
+ */
+export function applyCoercionStep<ValueType = any> (
+  coerce: Convert<ValueType>,
+  value: ValueType,
+  keyword?: string
+): ValueType {
+  if (!isReportingCoercion()) return coerce(value)
+  const report = reportCoercion(() => coerce(value))
+  for (const change of report.changes) {
+    recordCoercionChange({
+      ...change,
+      keyword: change.keyword ?? keyword
+    })
+  }
+  if (report.changes.length < 1 && keyword != null) {
+    recordCoercionChange({
+      keyword,
+      before: value,
+      after: report.value,
+      reason: `coerced to satisfy ${keyword}`
+    })
+  }
+  return report.value
+}
+
+/**
+ * Coerces a value with the provided constraint, listing what was changed and why.
+ * @function
+ * @template ValueType
+ * @param {ValueConstraint<any, any, ValueType>} constraint - constraint to be applied
+ * @param {any} value - value to be coerced
+ * @returns {CoercionReport<ValueType>}
+ */
+export function getCoercionReport<ValueType = any> (
+  constraint: ValueConstraint<any, any, ValueType>,
+  value: any
+): CoercionReport<ValueType> {
+  return reportCoercion(() => {
+    return constraint.coerce != null
+      ? constraint.coerce(value)
+      : value
+  })
+}
+
 /**
  * Combines multiple coercion functions into a single function, pass the results through each in order.
  * @function
  * @template ValueType
  * @param {Array<Convert<ValueType>>} steps - callbacks to be merged
+ * @param {Array<string | undefined>} keywords - schema properties associated with each step, for coercion reports
  * @returns {Convert<ValueType>}
  */
 export function mergeCoerceSteps<ValueType = any> (
-  steps: Array<Convert<ValueType>>
+  steps: Array<Convert<ValueType>>,
+  keywords: Array<string | undefined> = []
 ): Convert<ValueType> {
   return (value: ValueType) => {
     let converted = value
-    for (const coerce of steps) {
-      converted = coerce(converted)
+    for (let i = 0; i < steps.length; i++) {
+      converted = applyCoercionStep(steps[i], converted, keywords[i])
     }
     return converted
   }
@@ -123,8 +278,324 @@ export function echoValue<T = any> (
   return value
 }
 
+/**
+ * Gets the type name used by coercion policies for the provided value.
+ * This matches the typeof operator, save that null, arrays, dates, maps, sets, regular expressions, and byte arrays get their own names.
+ * @function
+ * @param {any} value - value to be evaluated
+ * @returns {string}
+ */
+export function getValueTypeName (value: any): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (value instanceof Date) return 'date'
+  if (value instanceof Map) return 'map'
+  if (value instanceof Set) return 'set'
+  if (value instanceof RegExp) return 'regexp'
+  if (value instanceof Uint8Array) return 'uint8array'
+  return typeof value
+}
+
+/**
+ * Decides which type conversions value type enforcers may apply during coercion.
+ * Conversions the policy disallows leave the value unchanged, so it keeps failing validation.
+ * @class
+ * @param {Record<string, string[]>} conversions - types each target type may be converted from, with '*' covering all types
+ * @param {boolean} allowLossy - whether coercion may discard information, such as by rounding, truncating, or falling back on a default for unparseable values
+ */
+export class CoercionPolicy {
+  conversions: Record<string, string[]>
+  allowLossy: boolean
+
+  constructor (
+    conversions: Record<string, string[]> = { '*': ['*'] },
+    allowLossy = true
+  ) {
+    this.conversions = conversions
+    this.allowLossy = allowLossy
+  }
+
+  /**
+   * Checks if values of one type may be converted to another.
+   * @function
+   * @param {string} from - type of the source value
+   * @param {string} to - type being converted to
+   * @returns {boolean}
+   */
+  allowsConversion (from: string, to: string): boolean {
+    if (from === to) return true
+    const sources = this.conversions[to] ?? this.conversions['*'] ?? []
+    return sources.includes('*') || sources.includes(from)
+  }
+}
+
+/**
+ * Allows all conversions, including lossy ones.
+ * @constant
+ */
+export const LENIENT_COERCION_POLICY = new CoercionPolicy()
+
+/**
+ * Allows all conversions that don't discard information.
+ * @constant
+ */
+export const LOSSLESS_COERCION_POLICY = new CoercionPolicy({ '*': ['*'] }, false)
+
+/**
+ * Only allows missing values to be filled in.
+ * @constant
+ */
+export const STRICT_COERCION_POLICY = new CoercionPolicy({ '*': ['undefined'] }, false)
+
+/**
+ * Describes how scalar enforcers should read text, such as values from spreadsheets or form inputs.
+ * @interface
+ * @property {string[] | undefined} trueWords - case insensitive words read as true
+ * @property {string[] | undefined} falseWords - case insensitive words read as false
+ * @property {string | undefined} decimalSeparator - character separating a number's whole and fractional parts
+ * @property {string[] | undefined} groupSeparators - characters used to group a number's digits, ignored when parsing
+ * @property {string[] | undefined} ignoredSymbols - symbols to be removed before parsing a number, such as currency or percent signs
+ */
+export interface ScalarParsingProfile {
+  trueWords?: string[]
+  falseWords?: string[]
+  decimalSeparator?: string
+  groupSeparators?: string[]
+  ignoredSymbols?: string[]
+}
+
+/**
+ * Symbols stripped from numbers by the profiles createScalarParsingProfile generates.
+ * @constant
+ */
+export const COMMON_NUMBER_SYMBOLS = ['$', '€', '£', '¥', '₹', '%', '‰']
+
+/**
+ * Reads the JSON true and false literals, used by boolean enforcers without a parsing profile of their own.
+ * @constant
+ */
+export const JSON_SCALAR_PARSING_PROFILE: ScalarParsingProfile = {
+  trueWords: ['true'],
+  falseWords: ['false']
+}
+
+/**
+ * Generates a parsing profile using the number separators of the provided locale, along with English true and false words.
+ * @function
+ * @param {string} locale - locale whose number format should be recognized
+ * @returns {ScalarParsingProfile}
+ */
+export function createScalarParsingProfile (
+  locale = 'en'
+): ScalarParsingProfile {
+  // Passing the numbering system as an option keeps any unicode extensions already in the locale valid.
+  const options: Intl.NumberFormatOptions & { numberingSystem?: string } = { numberingSystem: 'latn' }
+  const sample = new Intl.NumberFormat(locale, options).format(1234567.5)
+  const decimalSeparator = sample.charAt(sample.length - 2)
+  const groupSeparator = sample.slice(0, -2).replace(/[0-9]/g, '').charAt(0)
+  const groupSeparators = groupSeparator !== '' ? [groupSeparator] : []
+  if (/\s/.test(groupSeparator)) {
+    groupSeparators.push(' ', '\u00a0', '\u202f')
+  } else if (groupSeparator === '\u2019') {
+    groupSeparators.push("'")
+  }
+  return {
+    trueWords: ['true', 'yes', 'y', 'on', '1'],
+    falseWords: ['false', 'no', 'n', 'off', '0'],
+    decimalSeparator,
+    groupSeparators,
+    ignoredSymbols: COMMON_NUMBER_SYMBOLS.slice()
+  }
+}
+
+/**
+ * Reads a number from text using the provided profile's separators and symbols.
+ * Group separators are only accepted between the digits of a whole number, with 3 digits after each separator.
+ * @function
+ * @param {string} text - text to be parsed
+ * @param {ScalarParsingProfile} profile - describes the expected number format
+ * @returns {number} NaN if the text isn't a number
+ */
+export function parseNumberText (
+  text: string,
+  profile: ScalarParsingProfile
+): number {
+  let normalized = text
+  for (const symbol of profile.ignoredSymbols ?? []) {
+    normalized = normalized.split(symbol).join('')
+  }
+  normalized = normalized.trim()
+  const decimalSeparator = profile.decimalSeparator ?? '.'
+  const parts = normalized.split(decimalSeparator)
+  if (parts.length > 2) return NaN
+  let groups = [parts[0]]
+  for (const separator of profile.groupSeparators ?? []) {
+    groups = ([] as string[]).concat(...groups.map((group) => group.split(separator)))
+  }
+  if (groups.length > 1) {
+    const isGrouped = /^[+-]?\d{1,3}$/.test(groups[0]) &&
+      groups.slice(1).every((group) => /^\d{3}$/.test(group))
+    if (!isGrouped) return NaN
+  }
+  normalized = groups.join('')
+  if (parts.length > 1) {
+    normalized += `.${parts[1]}`
+  }
+  return normalized !== '' ? Number(normalized) : NaN
+}
+
+/**
+ * Reads a boolean from text using the provided profile's word lists.
+ * @function
+ * @param {string} text - text to be parsed
+ * @param {ScalarParsingProfile} profile - provides the true and false words
+ * @returns {boolean | undefined} undefined if the text isn't in either list
+ */
+export function parseBooleanText (
+  text: string,
+  profile: ScalarParsingProfile
+): boolean | undefined {
+  const word = text.trim().toLowerCase()
+  const matches = (words: string[] = []): boolean => words.some((item) => item.toLowerCase() === word)
+  if (matches(profile.trueWords)) return true
+  if (matches(profile.falseWords)) return false
+}
+
+/**
+ * Describes how array and object enforcers should read text that isn't JSON, such as tag lists or query strings.
+ * @interface
+ * @property {string} delimiter - separates list items or key value pairs
+ * @property {string | undefined} keyValueSeparator - separates each key from it's value when reading objects, defaulting to "="
+ * @property {string | undefined} pathSeparator - splits keys into paths for nested objects, as in "user.name=Al"
+ * @property {boolean | undefined} trim - remove whitespace around each piece
+ * @property {string[] | undefined} quotes - characters that can wrap a piece so it may contain delimiters, with doubled quote characters read as the character itself
+ */
+export interface DelimitedTextFormat {
+  delimiter: string
+  keyValueSeparator?: string
+  pathSeparator?: string
+  trim?: boolean
+  quotes?: string[]
+}
+
+/**
+ * Splits text wherever a delimiter occurs outside of quoted sections, leaving the pieces as is.
+ * Quoted sections only start at the beginning of a piece, ignoring whitespace, so apostrophes within words don't open one.
+ * @function
+ * @param {string} text - text to be split
+ * @param {string} delimiter - target delimiter
+ * @param {string[]} quotes - quote characters to be respected
+ * @param {number} limit - maximum number of splits
+ * @returns {string[]}
+ */
+function splitUnquoted (
+  text: string,
+  delimiter: string,
+  quotes: string[] = [],
+  limit = Number.POSITIVE_INFINITY
+): string[] {
+  const pieces: string[] = []
+  let start = 0
+  let quote: string | undefined
+  for (let i = 0; i < text.length && pieces.length < limit; i++) {
+    const character = text.charAt(i)
+    if (quote != null) {
+      if (character === quote) {
+        if (text.charAt(i + 1) === quote) {
+          i++
+        } else {
+          quote = undefined
+        }
+      }
+    } else if (quotes.includes(character) && text.slice(start, i).trim() === '') {
+      quote = character
+    } else if (delimiter !== '' && text.startsWith(delimiter, i)) {
+      pieces.push(text.slice(start, i))
+      start = i + delimiter.length
+      i = start - 1
+    }
+  }
+  pieces.push(text.slice(start))
+  return pieces
+}
+
+/**
+ * Trims and unquotes a piece of delimited text, as specified by the format.
+ * @function
+ * @param {string} text - piece to be cleaned up
+ * @param {DelimitedTextFormat} format - provides trimming and quote options
+ * @returns {string}
+ */
+function cleanDelimitedPiece (
+  text: string,
+  format: DelimitedTextFormat
+): string {
+  const trimmed = format.trim === true ? text.trim() : text
+  for (const quote of format.quotes ?? []) {
+    if (trimmed.length > 1 && trimmed.startsWith(quote) && trimmed.endsWith(quote)) {
+      return trimmed.slice(1, -1).split(quote + quote).join(quote)
+    }
+  }
+  return trimmed
+}
+
+/**
+ * Splits text into pieces by the format's delimiter.
+ * @function
+ * @param {string} text - text to be split
+ * @param {DelimitedTextFormat} format - describes how the text is delimited
+ * @returns {string[]}
+ */
+export function splitDelimitedText (
+  text: string,
+  format: DelimitedTextFormat
+): string[] {
+  if (text.trim() === '') return []
+  return splitUnquoted(text, format.delimiter, format.quotes)
+    .map((piece) => cleanDelimitedPiece(piece, format))
+}
+
+/**
+ * Reads an object from delimited key value pairs, such as "k1=v1;k2=v2".
+ * Keys without a separator are given an empty string, while keys that split into paths produce nested objects.
+ * @function
+ * @param {string} text - text to be parsed
+ * @param {DelimitedTextFormat} format - describes how the text is delimited
+ * @returns {Record<string, any>}
+ */
+export function parseKeyValueText (
+  text: string,
+  format: DelimitedTextFormat
+): Record<string, any> {
+  const results: Record<string, any> = {}
+  const separator = format.keyValueSeparator ?? '='
+  for (const pair of splitUnquoted(text, format.delimiter, format.quotes)) {
+    const parts = splitUnquoted(pair, separator, format.quotes, 1)
+    const key = cleanDelimitedPiece(parts[0], format)
+    const value = parts.length > 1 ? cleanDelimitedPiece(parts[1], format) : ''
+    if (key === '') continue
+    const path = format.pathSeparator != null && format.pathSeparator !== ''
+      ? key.split(format.pathSeparator)
+      : [key]
+    if (path.includes('__proto__')) continue
+    let target = results
+    for (let i = 0; i < path.length - 1; i++) {
+      const step = Object.prototype.hasOwnProperty.call(target, path[i])
+        ? target[path[i]]
+        : undefined
+      if (typeof step !== 'object' || step == null) {
+        target[path[i]] = {}
+      }
+      target = target[path[i]]
+    }
+    target[path[path.length - 1]] = value
+  }
+  return results
+}
+
 /**
  * Provides validation and coercion to a specific javascript type.
+ * Coercion follows the enforcer's policy, scalar enforcers read text through the parsing profile when one is set, and array and object enforcers can fall back on a delimited text format for text that isn't JSON.
  * @class
  * @template ValueType
  * @implements ValueConstraint<any, boolean, ValueType>
@@ -133,6 +604,9 @@ export class ValueTypeEnforcer<ValueType = any> implements ValueConstraint<any,
   readonly typeName: string
   defaultValue?: ValueType
   valueProperty?: string
+  policy: CoercionPolicy = LENIENT_COERCION_POLICY
+  parsingProfile?: ScalarParsingProfile
+  textFormat?: DelimitedTextFormat
 
   constructor (
     typeName: string,
@@ -164,6 +638,16 @@ export class ValueTypeEnforcer<ValueType = any> implements ValueConstraint<any,
       ? value[this.valueProperty]
       : value
   }
+
+  /**
+   * Checks if the enforcer's policy allows converting the provided value to the enforcer's type.
+   * @function
+   * @param {any} value - value to be converted
+   * @returns {boolean}
+   */
+  allowsConversion (value: any): boolean {
+    return this.policy.allowsConversion(getValueTypeName(value), this.typeName)
+  }
 }
 
 /**
@@ -185,19 +669,32 @@ export class ArrayEnforcer extends ValueTypeEnforcer<any[]> {
 
   coerce (value: any): any[] {
     const unwrapped = this.unwrap(value)
+    if (!this.allowsConversion(unwrapped)) return value
     switch (typeof unwrapped) {
       case 'string': {
         try {
           const parsed = JSON.parse(unwrapped)
-          if (Array.isArray(parsed)) return parsed
+          if (Array.isArray(parsed)) {
+            recordCoercionChange({ before: value, after: parsed, reason: 'parsed JSON array' })
+            return parsed
+          }
         } catch (error) {}
+        if (this.textFormat != null) {
+          const items = splitDelimitedText(unwrapped, this.textFormat)
+          recordCoercionChange({ before: value, after: items, reason: 'split delimited text' })
+          return items
+        }
         break
       }
       case 'object': {
         if (unwrapped == null) break
         if (Array.isArray(unwrapped)) {
+          recordCoercionChange({ before: value, after: unwrapped, reason: 'unwrapped value' })
           return unwrapped
         } else {
+          if (!this.policy.allowLossy && Object.keys(unwrapped).some((key) => isNaN(Number(key)))) {
+            return value
+          }
           const values: any[] = []
           for (const key in unwrapped) {
             const index = Number(key)
@@ -205,19 +702,24 @@ export class ArrayEnforcer extends ValueTypeEnforcer<any[]> {
               values[index] = unwrapped[key]
             }
           }
+          recordCoercionChange({ before: value, after: values, reason: 'converted object to array' })
           return values
         }
       }
     }
     if (this.defaultValue != null && unwrapped == null) {
-      return structuredClone(this.defaultValue)
+      const defaultValue = structuredClone(this.defaultValue)
+      recordCoercionChange({ before: value, after: defaultValue, reason: 'replaced with default' })
+      return defaultValue
     }
+    recordCoercionChange({ before: value, after: [unwrapped], reason: 'wrapped in array' })
     return [unwrapped]
   }
 }
 
 /**
  * Checks for and converts to a boolean.
+ * Text is read with the parsing profile's words, falling back on the JSON literals "true" and "false" if no profile is set.
  * @class
  * @extends ValueTypeEnforcer<boolean>
  */
@@ -231,10 +733,24 @@ export class BooleanEnforcer extends ValueTypeEnforcer<boolean> {
 
   coerce (value: any): boolean {
     const unwrapped = this.unwrap(value)
+    if (!this.allowsConversion(unwrapped)) return value
     if (unwrapped == null && this.defaultValue != null) {
+      recordCoercionChange({ before: value, after: this.defaultValue, reason: 'replaced with default' })
       return this.defaultValue
     }
-    return Boolean(unwrapped)
+    if (typeof unwrapped === 'string') {
+      const parsed = parseBooleanText(unwrapped, this.parsingProfile ?? JSON_SCALAR_PARSING_PROFILE)
+      if (parsed != null) {
+        recordCoercionChange({ before: value, after: parsed, reason: 'parsed boolean word' })
+        return parsed
+      }
+    }
+    if (!this.policy.allowLossy && typeof unwrapped !== 'boolean' && unwrapped !== 0 && unwrapped !== 1) {
+      return value
+    }
+    const result = Boolean(unwrapped)
+    recordCoercionChange({ before: value, after: result, reason: 'converted to boolean' })
+    return result
   }
 }
 
@@ -253,12 +769,31 @@ export class NumberEnforcer extends ValueTypeEnforcer<number> {
 
   coerce (value: any): number {
     const unwrapped = this.unwrap(value)
-    const num = Number(unwrapped)
+    if (!this.allowsConversion(unwrapped)) return value
+    if (!this.policy.allowLossy && this.isLossyConversion(unwrapped)) return value
+    const num = this.parsingProfile != null && typeof unwrapped === 'string'
+      ? parseNumberText(unwrapped, this.parsingProfile)
+      : Number(unwrapped)
     if (isNaN(num)) {
-      return this.defaultValue ?? 0
+      if (!this.policy.allowLossy && unwrapped != null) return value
+      const fallback = this.defaultValue ?? 0
+      recordCoercionChange({ before: value, after: fallback, reason: 'replaced unparseable value with default' })
+      return fallback
     }
+    recordCoercionChange({ before: value, after: num, reason: 'converted to number' })
     return num
   }
+
+  /**
+   * Checks if converting the provided value would discard information, such as blank text being read as zero.
+   * @function
+   * @param {any} value - value to be evaluated
+   * @returns {boolean}
+   */
+  isLossyConversion (value: any): boolean {
+    if (typeof value === 'string') return value.trim() === ''
+    return typeof value === 'object' && value != null && !(value instanceof Date)
+  }
 }
 
 /**
@@ -287,9 +822,11 @@ export class SteppedNumberEnforcer extends NumberEnforcer {
 
   coerce (value: any): number {
     const num = super.coerce(value)
-    return this.step !== 0
-      ? Math.round(num / this.step) * this.step
-      : num
+    if (this.step === 0 || typeof num !== 'number') return num
+    const rounded = Math.round(num / this.step) * this.step
+    if (!this.policy.allowLossy && rounded !== num) return value
+    recordCoercionChange({ before: num, after: rounded, reason: `rounded to a multiple of ${this.step}` })
+    return rounded
   }
 }
 
@@ -311,12 +848,21 @@ export class ObjectEnforcer extends ValueTypeEnforcer<Record<string, any>> {
   }
 
   coerce (value: any): Record<string, any> {
+    if (!this.allowsConversion(value)) return value
     switch (typeof value) {
       case 'string': {
         try {
           const parsed = JSON.parse(value)
-          if (this.validate(parsed)) return parsed
+          if (this.validate(parsed)) {
+            recordCoercionChange({ before: value, after: parsed, reason: 'parsed JSON object' })
+            return parsed
+          }
         } catch (error) {}
+        if (this.textFormat != null) {
+          const values = parseKeyValueText(value, this.textFormat)
+          recordCoercionChange({ before: value, after: values, reason: 'parsed key value pairs' })
+          return values
+        }
         break
       }
       case 'object': {
@@ -330,18 +876,32 @@ export class ObjectEnforcer extends ValueTypeEnforcer<Record<string, any>> {
               values[key] = indexedValue
             }
           }
+          recordCoercionChange({ before: value, after: values, reason: 'converted array to object' })
           return values
         } else {
           return value
         }
       }
     }
+    if (
+      !this.policy.allowLossy &&
+      value != null &&
+      (this.defaultValue != null || this.valueProperty == null)
+    ) {
+      return value
+    }
     if (this.defaultValue != null) {
-      return structuredClone(this.defaultValue)
+      const defaultValue = structuredClone(this.defaultValue)
+      recordCoercionChange({ before: value, after: defaultValue, reason: 'replaced with default' })
+      return defaultValue
     }
-    return this.valueProperty != null
-      ? { [this.valueProperty]: value }
-      : {}
+    if (this.valueProperty != null) {
+      const wrapped = { [this.valueProperty]: value }
+      recordCoercionChange({ before: value, after: wrapped, reason: 'wrapped in object' })
+      return wrapped
+    }
+    recordCoercionChange({ before: value, after: {}, reason: 'replaced with empty object' })
+    return {}
   }
 }
 
@@ -360,41 +920,422 @@ export class StringEnforcer extends ValueTypeEnforcer<string> {
 
   coerce (value: any): string {
     const unwrapped = this.unwrap(value)
+    if (!this.allowsConversion(unwrapped)) return value
     if (unwrapped == null && this.defaultValue != null) {
+      recordCoercionChange({ before: value, after: this.defaultValue, reason: 'replaced with default' })
       return this.defaultValue
     }
     switch (typeof unwrapped) {
       case 'string': {
+        recordCoercionChange({ before: value, after: unwrapped, reason: 'unwrapped value' })
         return unwrapped
       }
       case 'object': {
         try {
-          return JSON.stringify(unwrapped)
+          const serialized = JSON.stringify(unwrapped)
+          recordCoercionChange({ before: value, after: serialized, reason: 'serialized as JSON' })
+          return serialized
         } catch (error) {
           break
         }
       }
     }
-    return String(unwrapped)
+    const result = String(unwrapped)
+    recordCoercionChange({ before: value, after: result, reason: 'converted to string' })
+    return result
   }
 }
 
-export function isEquivalentTo (a: any, b: any): boolean {
-  if (typeof a === 'object' && a != null && typeof b === 'object' && b != null) {
-    const checkedKeys: any[] = []
-    for (const key in a) {
-      if (!isEquivalentTo(a[key], b[key])) {
-        return false
+/**
+ * Checks for and converts to a valid date.
+ * Strings are read as ISO dates, while numbers and strings of digits are read as milliseconds since the epoch.
+ * @class
+ * @extends ValueTypeEnforcer<Date>
+ */
+export class DateEnforcer extends ValueTypeEnforcer<Date> {
+  constructor (
+    defaultValue?: Date,
+    valueProperty?: string
+  ) {
+    super('date', defaultValue, valueProperty)
+  }
+
+  validate (value: any): boolean {
+    return value instanceof Date && !isNaN(value.getTime())
+  }
+
+  coerce (value: any): Date {
+    const unwrapped = this.unwrap(value)
+    if (this.validate(unwrapped)) return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    if (typeof unwrapped === 'string' || typeof unwrapped === 'number') {
+      const date = new Date(
+        typeof unwrapped === 'string' && /^-?\d+$/.test(unwrapped.trim())
+          ? Number(unwrapped)
+          : unwrapped
+      )
+      if (this.validate(date)) {
+        recordCoercionChange({ before: value, after: date, reason: 'converted to date' })
+        return date
       }
-      checkedKeys.push(key)
     }
-    for (const key in b) {
-      if (checkedKeys.includes(key)) continue
-      if (!isEquivalentTo(a[key], b[key])) {
-        return false
+    if (!this.policy.allowLossy && unwrapped != null) return value
+    const fallback = new Date(this.defaultValue?.getTime() ?? 0)
+    recordCoercionChange({ before: value, after: fallback, reason: 'replaced with default' })
+    return fallback
+  }
+}
+
+/**
+ * Checks for and converts to a BigInt.
+ * @class
+ * @extends ValueTypeEnforcer<bigint>
+ */
+export class BigIntEnforcer extends ValueTypeEnforcer<bigint> {
+  constructor (
+    defaultValue?: bigint,
+    valueProperty?: string
+  ) {
+    super('bigint', defaultValue, valueProperty)
+  }
+
+  coerce (value: any): bigint {
+    const unwrapped = this.unwrap(value)
+    if (typeof unwrapped === 'bigint') return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    let result: bigint | undefined
+    if (typeof unwrapped === 'number' && isFinite(unwrapped)) {
+      const whole = Math.round(unwrapped)
+      if (whole !== unwrapped && !this.policy.allowLossy) return value
+      result = BigInt(whole)
+    } else if (typeof unwrapped === 'string' || typeof unwrapped === 'boolean') {
+      try {
+        result = BigInt(unwrapped)
+      } catch (error) {}
+    }
+    if (result == null) {
+      if (!this.policy.allowLossy && unwrapped != null) return value
+      result = this.defaultValue ?? BigInt(0)
+      recordCoercionChange({ before: value, after: result, reason: 'replaced with default' })
+      return result
+    }
+    recordCoercionChange({ before: value, after: result, reason: 'converted to bigint' })
+    return result
+  }
+}
+
+/**
+ * Checks for and converts to a Map.
+ * Arrays of key value pairs and objects are converted to maps, with strings being parsed as JSON first.
+ * @class
+ * @extends ValueTypeEnforcer<Map<any, any>>
+ */
+export class MapEnforcer extends ValueTypeEnforcer<Map<any, any>> {
+  constructor (
+    defaultValue?: Map<any, any>,
+    valueProperty?: string
+  ) {
+    super('map', defaultValue, valueProperty)
+  }
+
+  validate (value: any): boolean {
+    return value instanceof Map
+  }
+
+  coerce (value: any): Map<any, any> {
+    const unwrapped = this.unwrap(value)
+    if (unwrapped instanceof Map) return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    let source = unwrapped
+    if (typeof source === 'string') {
+      try {
+        source = JSON.parse(source)
+      } catch (error) {}
+    }
+    if (
+      Array.isArray(source) &&
+      source.every((item) => Array.isArray(item) && item.length === 2)
+    ) {
+      const map = new Map(source)
+      recordCoercionChange({ before: value, after: map, reason: 'converted entries to map' })
+      return map
+    }
+    if (typeof source === 'object' && source != null && !Array.isArray(source)) {
+      const map = new Map(Object.keys(source).map((key) => [key, source[key]]))
+      recordCoercionChange({ before: value, after: map, reason: 'converted object to map' })
+      return map
+    }
+    if (!this.policy.allowLossy && unwrapped != null) return value
+    const fallback = this.defaultValue != null
+      ? structuredClone(this.defaultValue)
+      : new Map()
+    recordCoercionChange({ before: value, after: fallback, reason: 'replaced with default' })
+    return fallback
+  }
+}
+
+/**
+ * Checks for and converts to a Set.
+ * Arrays are converted to sets, with strings being parsed as JSON or through the text format first.
+ * Other values are wrapped in a set.
+ * @class
+ * @extends ValueTypeEnforcer<Set<any>>
+ */
+export class SetEnforcer extends ValueTypeEnforcer<Set<any>> {
+  constructor (
+    defaultValue?: Set<any>,
+    valueProperty?: string
+  ) {
+    super('set', defaultValue, valueProperty)
+  }
+
+  validate (value: any): boolean {
+    return value instanceof Set
+  }
+
+  coerce (value: any): Set<any> {
+    const unwrapped = this.unwrap(value)
+    if (unwrapped instanceof Set) return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    if (unwrapped == null) {
+      const fallback = this.defaultValue != null
+        ? structuredClone(this.defaultValue)
+        : new Set()
+      recordCoercionChange({ before: value, after: fallback, reason: 'replaced with default' })
+      return fallback
+    }
+    let items: any[] = [unwrapped]
+    if (Array.isArray(unwrapped)) {
+      items = unwrapped
+    } else if (typeof unwrapped === 'string') {
+      try {
+        const parsed = JSON.parse(unwrapped)
+        if (Array.isArray(parsed)) items = parsed
+      } catch (error) {
+        if (this.textFormat != null) {
+          items = splitDelimitedText(unwrapped, this.textFormat)
+        }
       }
-      checkedKeys.push(key)
     }
+    const set = new Set(items)
+    if (set.size < items.length && !this.policy.allowLossy) return value
+    recordCoercionChange({ before: value, after: set, reason: 'converted to set' })
+    return set
+  }
+}
+
+/**
+ * Checks for and converts to a regular expression.
+ * Strings in literal form, like "/a+/i", keep their flags, while other strings are used as the pattern.
+ * @class
+ * @extends ValueTypeEnforcer<RegExp>
+ */
+export class RegExpEnforcer extends ValueTypeEnforcer<RegExp> {
+  constructor (
+    defaultValue?: RegExp,
+    valueProperty?: string
+  ) {
+    super('regexp', defaultValue, valueProperty)
+  }
+
+  validate (value: any): boolean {
+    return value instanceof RegExp
+  }
+
+  coerce (value: any): RegExp {
+    const unwrapped = this.unwrap(value)
+    if (unwrapped instanceof RegExp) return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    if (typeof unwrapped === 'string') {
+      const literal = /^\/([\s\S]*)\/([a-z]*)$/.exec(unwrapped)
+      try {
+        const expression = literal != null
+          ? new RegExp(literal[1], literal[2])
+          : new RegExp(unwrapped)
+        recordCoercionChange({ before: value, after: expression, reason: 'converted to regular expression' })
+        return expression
+      } catch (error) {}
+    }
+    if (!this.policy.allowLossy && unwrapped != null) return value
+    const fallback = new RegExp(this.defaultValue ?? '')
+    recordCoercionChange({ before: value, after: fallback, reason: 'replaced with default' })
+    return fallback
+  }
+}
+
+/**
+ * Checks for and converts to a byte array.
+ * Arrays of numbers are copied byte by byte, while strings are decoded as base64.
+ * @class
+ * @extends ValueTypeEnforcer<Uint8Array>
+ */
+export class Uint8ArrayEnforcer extends ValueTypeEnforcer<Uint8Array> {
+  constructor (
+    defaultValue?: Uint8Array,
+    valueProperty?: string
+  ) {
+    super('uint8array', defaultValue, valueProperty)
+  }
+
+  validate (value: any): boolean {
+    return value instanceof Uint8Array
+  }
+
+  coerce (value: any): Uint8Array {
+    const unwrapped = this.unwrap(value)
+    if (unwrapped instanceof Uint8Array) return unwrapped
+    if (!this.allowsConversion(unwrapped)) return value
+    let bytes: Uint8Array | undefined
+    if (Array.isArray(unwrapped)) {
+      const isLossless = unwrapped.every(
+        (item) => typeof item === 'number' && item >= 0 && item <= 255 && item % 1 === 0
+      )
+      if (!isLossless && !this.policy.allowLossy) return value
+      bytes = Uint8Array.from(unwrapped, (item) => Number(item))
+    } else if (unwrapped instanceof ArrayBuffer) {
+      bytes = new Uint8Array(unwrapped.slice(0))
+    } else if (typeof unwrapped === 'string') {
+      try {
+        const text = atob(unwrapped)
+        bytes = Uint8Array.from(text.split(''), (character) => character.charCodeAt(0))
+      } catch (error) {}
+    }
+    if (bytes != null) {
+      recordCoercionChange({ before: value, after: bytes, reason: 'converted to bytes' })
+      return bytes
+    }
+    if (!this.policy.allowLossy && unwrapped != null) return value
+    const fallback = this.defaultValue != null
+      ? this.defaultValue.slice()
+      : new Uint8Array(0)
+    recordCoercionChange({ before: value, after: fallback, reason: 'replaced with default' })
+    return fallback
+  }
+}
+
+/**
+ * Signals that a value contains itself, so it can't be traversed recursively.
+ * @class
+ * @extends Error
+ * @param {any} value - value that was encountered within itself
+ */
+/**
+ * Sets a property on an object as it's own, so keys like "__proto__" don't replace the object's prototype.
+ * @function
+ * @param {UntypedObject} target - object to be modified
+ * @param {string} key - name of the property
+ * @param {any} value - value to be stored
+ */
+export function setOwnProperty (
+  target: UntypedObject,
+  key: string,
+  value: any
+): void {
+  Object.defineProperty(target, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true
+  })
+}
+
+/**
+ * Creates a shallow copy of an object's own enumerable properties.
+ * @function
+ * @param {UntypedObject} source - object to be copied
+ * @returns {UntypedObject}
+ */
+export function copyOwnProperties (
+  source: UntypedObject
+): UntypedObject {
+  const results: UntypedObject = {}
+  for (const key of Object.keys(source)) {
+    setOwnProperty(results, key, source[key])
+  }
+  return results
+}
+
+export class CyclicValueError extends Error {
+  value: any
+
+  constructor (
+    value: any
+  ) {
+    super('Unable to process a value that contains itself.')
+    Object.setPrototypeOf(this, CyclicValueError.prototype)
+    this.name = 'CyclicValueError'
+    this.value = value
+  }
+}
+
+const traversedValues: any[] = []
+
+/**
+ * Runs a callback that descends into the provided value, throwing a CyclicValueError if that value is already being descended into.
+ * Values being descended into are tracked at the module level, so an enforcer that runs a separate enforcer on a value it's still descending into will get that error too.
+ * @function
+ * @template T
+ * @param {any} value - value being descended into
+ * @param {() => T} callback - function that processes the value's contents
+ * @returns {T}
+ */
+export function traverseValue<T> (
+  value: any,
+  callback: () => T
+): T {
+  if (typeof value !== 'object' || value == null) {
+    return callback()
+  }
+  if (traversedValues.includes(value)) {
+    throw new CyclicValueError(value)
+  }
+  traversedValues.push(value)
+  try {
+    return callback()
+  } finally {
+    traversedValues.pop()
+  }
+}
+
+/**
+ * Gets a comparable version of the contents of values that don't store their contents as properties, like dates and maps.
+ * @function
+ * @param {any} value - value to be evaluated
+ * @returns {any} undefined if the value's properties already cover it's contents
+ */
+function getInternalContents (value: any): any {
+  if (value instanceof Date) return value.getTime()
+  if (value instanceof RegExp) return String(value)
+  if (value instanceof Map) return Array.from(value.entries())
+  if (value instanceof Set) return Array.from(value.values())
+}
+
+export function isEquivalentTo (a: any, b: any): boolean {
+  // Identical values match without being traversed, letting values that contain themselves be compared to themselves.
+  if (a === b) return true
+  if (typeof a === 'object' && a != null && typeof b === 'object' && b != null) {
+    const contents = getInternalContents(a)
+    if (contents !== undefined || getInternalContents(b) !== undefined) {
+      return Object.getPrototypeOf(a) === Object.getPrototypeOf(b) &&
+        traverseValue(a, () => isEquivalentTo(contents, getInternalContents(b)))
+    }
+    return traverseValue(a, () => {
+      const checkedKeys: any[] = []
+      for (const key in a) {
+        if (!isEquivalentTo(a[key], b[key])) {
+          return false
+        }
+        checkedKeys.push(key)
+      }
+      for (const key in b) {
+        if (checkedKeys.includes(key)) continue
+        if (!isEquivalentTo(a[key], b[key])) {
+          return false
+        }
+        checkedKeys.push(key)
+      }
+      return Array.isArray(a) === Array.isArray(b)
+    })
   }
   return a === b
 }
@@ -419,6 +1360,7 @@ export class StrictEqualityEnforcer<ValueType = any> implements ValueConstraint<
   }
 
   coerce (value: any): ValueType {
+    recordCoercionChange({ before: value, after: this.value, reason: 'replaced with expected value' })
     return this.value
   }
 }
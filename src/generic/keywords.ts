@@ -4,12 +4,14 @@ import {
   type UntypedObject,
   type ValueConstraint,
   type ValueConstraintRule,
+  applyCoercionStep,
   mergeCoerceSteps
 } from './coercion'
 import {
   type Convert,
   type ErrorLog,
   ErrorLogValidationParser,
+  collectAllErrors,
   mergeValidateSteps
 } from './validation'
 
@@ -22,6 +24,8 @@ import {
  * @property {any} target - target schema value
  * @property {number | undefined} priority - relative importance of the target error
  * @property {Convert<From, To> | undefined} coerce - provideds a callback to fix the validation error
+ * @property {Array<string | number> | undefined} instancePath - location of the failed value within the validated value
+ * @property {Array<string | number> | undefined} schemaPath - location of the failed subschema within the schema
  */
 export interface KeywordError<From = any, To = From> {
   keyword: string
@@ -29,6 +33,137 @@ export interface KeywordError<From = any, To = From> {
   target: any
   priority?: number
   coerce?: Convert<From, To>
+  instancePath?: Array<string | number>
+  schemaPath?: Array<string | number>
+}
+
+/**
+ * Converts errors from validating a nested value to errors for the containing value.
+ * Coercion callbacks are replaced with the provided source's callback, as those apply to the containing value.
+ * @function
+ * @param {Array<Partial<KeywordError>>} errors - errors for the nested value
+ * @param {string | number | undefined} key - property name or index of the nested value
+ * @param {KeywordError} source - provides fallback error values and coercion for the containing value
+ * @param {Array<string | number> | undefined} schemaPath - location of the nested subschema within the containing schema
+ * @returns {KeywordError[]}
+ */
+export function nestKeywordErrors (
+  errors: Array<Partial<KeywordError>>,
+  key: string | number | undefined,
+  source: KeywordError,
+  schemaPath?: Array<string | number>
+): KeywordError[] {
+  return errors.map((error) => {
+    const instancePath = error.instancePath ?? []
+    const nested: KeywordError = {
+      keyword: error.keyword ?? source.keyword,
+      value: 'value' in error ? error.value : source.value,
+      target: 'target' in error ? error.target : source.target,
+      priority: error.priority ?? source.priority,
+      coerce: source.coerce,
+      instancePath: key != null ? [key].concat(instancePath) : instancePath
+    }
+    nested.schemaPath = schemaPath != null
+      ? schemaPath.concat(error.schemaPath ?? [])
+      : error.schemaPath ?? []
+    return nested
+  })
+}
+
+/**
+ * Converts a list of property names and indices to a JSON pointer.
+ * @function
+ * @param {Array<string | number>} path - keys leading to the target value
+ * @returns {string}
+ */
+export function createJSONPointer (
+  path: Array<string | number>
+): string {
+  return path
+    .map((key) => '/' + String(key).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('')
+}
+
+/**
+ * Groups the errors in a log by the JSON pointer to their instance location, such as for displaying errors next to each field.
+ * @function
+ * @template ErrorType
+ * @param {ErrorLog<ErrorType>} log - errors to be grouped
+ * @returns {Record<string, ErrorType[]>}
+ */
+export function groupErrorsByInstancePath<ErrorType extends Partial<KeywordError>> (
+  log: ErrorLog<ErrorType>
+): Record<string, ErrorType[]> {
+  const results: Record<string, ErrorType[]> = {}
+  for (const error of log.errors) {
+    const location = createJSONPointer(error.instancePath ?? [])
+    if (results[location] == null) {
+      results[location] = []
+    }
+    results[location].push(error)
+  }
+  return results
+}
+
+/**
+ * Details a keyword reports about a value that passed it's checks, such as which properties it evaluated.
+ * @interface
+ * @property {string} keyword - schema property that produced the annotation
+ * @property {any} value - annotation content
+ * @property {Array<string | number> | undefined} instancePath - location of the annotated value within the validated value
+ * @property {Array<string | number> | undefined} schemaPath - location of the annotating subschema within the schema
+ */
+export interface KeywordAnnotation {
+  keyword: string
+  value: any
+  instancePath?: Array<string | number>
+  schemaPath?: Array<string | number>
+}
+
+/**
+ * Converts annotations for a nested value or subschema to annotations for the containing value.
+ * @function
+ * @param {KeywordAnnotation[] | undefined} annotations - annotations to be converted
+ * @param {string | number | undefined} key - property name or index of the nested value
+ * @param {Array<string | number> | undefined} schemaPath - location of the nested subschema within the containing schema
+ * @returns {KeywordAnnotation[]}
+ */
+export function nestKeywordAnnotations (
+  annotations: KeywordAnnotation[] = [],
+  key?: string | number,
+  schemaPath?: Array<string | number>
+): KeywordAnnotation[] {
+  return annotations.map((annotation) => {
+    const nested: KeywordAnnotation = {
+      ...annotation,
+      instancePath: key != null
+        ? [key].concat(annotation.instancePath ?? [])
+        : annotation.instancePath
+    }
+    if (schemaPath != null) {
+      nested.schemaPath = schemaPath.concat(annotation.schemaPath ?? [])
+    }
+    return nested
+  })
+}
+
+/**
+ * Gathers the values of annotations made at the root of the validated value by the provided keywords.
+ * @function
+ * @param {KeywordAnnotation[] | undefined} annotations - annotations to be searched
+ * @param {string[]} keywords - keywords whose annotations should be included
+ * @returns {any[]}
+ */
+export function getLocalAnnotationValues (
+  annotations: KeywordAnnotation[] = [],
+  keywords: string[]
+): any[] {
+  return annotations
+    .filter((annotation) =>
+      (annotation.instancePath == null || annotation.instancePath.length < 1) &&
+      keywords.includes(annotation.keyword)
+    )
+    .map((annotation) => annotation.value)
 }
 
 /**
@@ -74,22 +209,43 @@ implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
               value: this.value,
               target,
               priority: this.priority,
-              coerce: this.coerce
+              coerce: this.coerce,
+              instancePath: [],
+              schemaPath: []
             }
           ]
         }
   }
 }
 
+/**
+ * Counts the errors in a log that mark a failure, leaving out advisory errors with a negative priority.
+ * Nested enforcers should use this to decide if a value passed, rather than checking for an empty error list.
+ * @function
+ * @param {ErrorLog<Partial<KeywordError>>} log - validation results to be evaluated
+ * @returns {number}
+ */
+export function countKeywordFailures (
+  log: ErrorLog<Partial<KeywordError>>
+): number {
+  return log.errors.filter((error) => error.priority == null || error.priority >= 0).length
+}
+
 /**
  * Adds support for error priority checking to error log validation parsing.
+ * Errors with a negative priority are treated as advisory and don't count as failures.
  * @class
- * @extends ErrorLogValidationParser<Partial<KeywordError>>
+ * @template ErrorType
+ * @extends ErrorLogValidationParser<ErrorType>
  */
-export class KeywordErrorLogValidationParser
-  extends ErrorLogValidationParser<Partial<KeywordError>> {
-  rateValidity (value: ErrorLog<Partial<KeywordError>>): number {
-    if (value.errors.length > 0) {
+export class KeywordErrorLogValidationParser<ErrorType extends Partial<KeywordError> = Partial<KeywordError>>
+  extends ErrorLogValidationParser<ErrorType> {
+  isValid (value: ErrorLog<ErrorType>): boolean {
+    return countKeywordFailures(value) < 1
+  }
+
+  rateValidity (value: ErrorLog<ErrorType>): number {
+    if (!this.isValid(value)) {
       let maxErrorPriority = 0
       for (const error of value.errors) {
         if (error.priority != null && error.priority > maxErrorPriority) {
@@ -129,7 +285,7 @@ implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
     const validation = this.validate(value)
     const error = validation.errors[0]
     return error?.coerce != null
-      ? error.coerce(value)
+      ? applyCoercionStep(error.coerce, value, error.keyword)
       : this.defaultCoerce(value)
   }
 
@@ -143,11 +299,12 @@ implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
     errors: KeywordError[]
   ): KeywordError | undefined {
     let match: KeywordError | undefined
-    const highestPriority = Number.NEGATIVE_INFINITY
+    let highestPriority = Number.NEGATIVE_INFINITY
     for (const error of errors) {
       const priority = error.priority ?? 0
       if (match == null || priority > highestPriority) {
         match = error
+        highestPriority = priority
       }
     }
     return match
@@ -158,7 +315,7 @@ implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
     let lowestPriority = Number.POSITIVE_INFINITY
     for (const branch of this.branches) {
       const validation = branch.validate(target)
-      if (validation.errors.length < 1) {
+      if (countKeywordFailures(validation) < 1) {
         return validation
       }
       const priority = this.getHighestPriorityError(validation.errors)?.priority ?? 0
@@ -171,14 +328,70 @@ implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
   }
 }
 
+/**
+ * Applies the enforcers of a schema's other keywords, letting a keyword check a value against the rest of it's schema.
+ * Enforcers are looked up on each call, so those of keywords built after the calling keyword are included.
+ * @class
+ * @template From, To
+ * @implements ValueConstraint<From, ErrorLog<KeywordError>, To>
+ * @param {Record<string, ValueConstraint<From, ErrorLog<Partial<KeywordError>>, To>>} enforcers - enforcers of the schema's keywords
+ * @param {string[]} excludedKeywords - keywords whose enforcers should be skipped
+ */
+export class SiblingKeywordsEnforcer<From = any, To = From>
+implements ValueConstraint<From, ErrorLog<KeywordError>, To> {
+  enforcers: Record<string, ValueConstraint<From, ErrorLog<Partial<KeywordError>>, To>>
+  excludedKeywords: string[]
+  validationParser = new KeywordErrorLogValidationParser<KeywordError>()
+
+  constructor (
+    enforcers: Record<string, ValueConstraint<From, ErrorLog<Partial<KeywordError>>, To>>,
+    excludedKeywords: string[] = []
+  ) {
+    this.enforcers = enforcers
+    this.excludedKeywords = excludedKeywords
+  }
+
+  /**
+   * Lists the keywords whose enforcers should be applied.
+   * @function
+   * @returns {string[]}
+   */
+  getKeywords (): string[] {
+    return Object.keys(this.enforcers).filter((keyword) => !this.excludedKeywords.includes(keyword))
+  }
+
+  validate (target: From): ErrorLog<KeywordError> {
+    const steps = this.getKeywords().map(
+      (keyword) => (value: From) => this.enforcers[keyword].validate(value) as ErrorLog<KeywordError>
+    )
+    return mergeValidateSteps(steps, this.validationParser)(target)
+  }
+
+  coerce (target: From): To {
+    const steps: Convert[] = []
+    const keywords: string[] = []
+    for (const keyword of this.getKeywords()) {
+      const enforcer = this.enforcers[keyword]
+      if (enforcer.coerce != null) {
+        steps.push(enforcer.coerce.bind(enforcer))
+        keywords.push(keyword)
+      }
+    }
+    return mergeCoerceSteps(steps, keywords)(target)
+  }
+}
+
 /**
  * Wrapper for a mapping of constraints by associated keywords.
+ * When passed to a keyword rule, the map holds the enforcers of the schema's other keywords, with later keywords being added as they're built.
  * @interface
  * @template From, To
- * @property {Record<string, ValueConstraint<From, ErrorLog<KeywordError>, To>>} enforcers - constraint map
+ * @property {Record<string, ValueConstraint<From, ErrorLog<Partial<KeywordError>>, To>>} enforcers - constraint map
+ * @property {Map<object, Map<UntypedObject, KeywordRulesEnforcer<From, To>>> | undefined} cache - enforcers already built, by factory then schema
  */
 export interface KeywordEnforcerContext<From = any, To = From> {
-  enforcers: Record<string, ValueConstraint<From, ErrorLog<KeywordError>, To>>
+  enforcers: Record<string, ValueConstraint<From, ErrorLog<Partial<KeywordError>>, To>>
+  cache?: Map<object, Map<UntypedObject, KeywordRulesEnforcer<From, To>>>
 }
 
 /**
@@ -218,7 +431,8 @@ To
  * @template From, To
  * @implements ConversionFactory<UntypedObject, SchemaEnforcer<UntypedObject, ErrorLog<KeywordError>, To>, KeywordEnforcerContext<From, To>>
  * @param {Array<KeywordRule<From, To>>} rules - list of rules to be checked
- * @param {ErrorLogValidationParser} validationParser - provides handling for error logs
+ * @param {KeywordErrorLogValidationParser<KeywordError>} validationParser - provides handling for error logs
+ * @param {boolean} allErrors - have the resulting enforcers validate in all errors mode
  */
 export class SequentialKeywordEnforcerFactory<From = any, To = From>
 implements ConversionFactory<
@@ -227,7 +441,8 @@ SchemaEnforcer<UntypedObject, ErrorLog<KeywordError>, To>,
 KeywordEnforcerContext<From, To>
 > {
   rules: Array<KeywordRule<From, To>>
-  validationParser = new ErrorLogValidationParser()
+  validationParser = new KeywordErrorLogValidationParser<KeywordError>()
+  allErrors = false
 
   constructor (
     rules: Array<KeywordRule<From, To>> = []
@@ -239,28 +454,51 @@ KeywordEnforcerContext<From, To>
     schema: UntypedObject,
     context: KeywordEnforcerContext<From, To> = { enforcers: {} }
   ): KeywordRulesEnforcer<From, To> {
+    const cache = context.cache ?? new Map<object, Map<UntypedObject, KeywordRulesEnforcer<From, To>>>()
+    let schemaCache = cache.get(this)
+    if (schemaCache == null) {
+      schemaCache = new Map()
+      cache.set(this, schemaCache)
+    }
+    const cached = schemaCache.get(schema)
+    if (cached != null) return cached
     const enforcers: Record<string, ValueConstraint<From, ErrorLog<KeywordError>, To>> = {}
+    const subcontext = { ...context, cache, enforcers }
+    const enforcer: KeywordRulesEnforcer<From, To> = {
+      schema,
+      validate: (value: any) => ({ errors: [] }),
+      enforcers
+    }
+    // Recursive schemas get a stand in that defers to the finished enforcer.
+    schemaCache.set(schema, {
+      schema,
+      validate: (value: any) => enforcer.validate(value),
+      coerce: (value: any) => enforcer.coerce != null ? enforcer.coerce(value) : value,
+      enforcers
+    })
     const validateQueue: Array<Convert<any, ErrorLog<KeywordError>>> = []
     const coerceQueue: Convert[] = []
+    const coerceKeywords: string[] = []
     for (const rule of this.rules) {
-      const ruleEnforcer = rule.getEnforcerFor(schema, context)
+      const ruleEnforcer = rule.getEnforcerFor(schema, subcontext)
       if (ruleEnforcer != null) {
         validateQueue.push((value: From) => ruleEnforcer.validate(value))
         if (ruleEnforcer.coerce != null) {
-          const coerce = ruleEnforcer.coerce
+          const coerce = ruleEnforcer.coerce.bind(ruleEnforcer)
           coerceQueue.push((value: From) => coerce(value))
+          coerceKeywords.push(rule.keyword)
         }
         enforcers[rule.keyword] = ruleEnforcer
       }
     }
-    const enforcer: KeywordRulesEnforcer<From, To> = {
-      schema,
-      validate: mergeValidateSteps(validateQueue, this.validationParser),
-      enforcers
-    }
+    const validate = mergeValidateSteps(validateQueue, this.validationParser)
+    enforcer.validate = this.allErrors
+      ? (value: any) => collectAllErrors(() => validate(value))
+      : validate
     if (coerceQueue.length > 0) {
-      enforcer.coerce = mergeCoerceSteps(coerceQueue)
+      enforcer.coerce = mergeCoerceSteps(coerceQueue, coerceKeywords)
     }
+    schemaCache.set(schema, enforcer)
     return enforcer
   }
 }
@@ -287,14 +525,24 @@ export class TypeKeywordEnforcer<ValueType = any> extends KeywordValueEnforcer<a
   ) {
     super(keyword, value, check, undefined, priority)
     this.coerceType = coerceType
+    this.rulesEnforcer = rulesEnforcer
     this.coerce = (value: any) => {
       const typedValue = this.coerceType(value)
+      // Values the type enforcer wasn't allowed to convert are left for validation to reject.
+      if (typedValue === value && !this.check(value)) return value
       return this.rulesEnforcer?.coerce != null
         ? this.rulesEnforcer.coerce(typedValue)
         : typedValue
     }
   }
 
+  /**
+   * Checks the value's type, then applies the additional constraints if it passes.
+   * Values of the wrong type only get the type error, even in all errors mode, as those constraints expect the target type.
+   * @function
+   * @param {any} target - value to be validated
+   * @returns {ErrorLog<KeywordError>}
+   */
   validate (target: any): ErrorLog<KeywordError> {
     const typeCheck = super.validate(target)
     if (this.rulesEnforcer != null && typeCheck.errors.length < 1) {
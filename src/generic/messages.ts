@@ -0,0 +1,121 @@
+import { type ConversionFactory } from './coercion'
+import { type Convert } from './validation'
+import { type KeywordError, createJSONPointer } from './keywords'
+
+/**
+ * Message templates mapped by the keyword of the errors they describe.
+ * Templates can include the error's keyword, value, target, and instancePath in curly braces, with the error's value also being available under it's keyword, as in "must be at least {minimum}".
+ * @type
+ */
+export type KeywordMessageTemplates = Record<string, string>
+
+/**
+ * Converts keyword errors to human readable messages using per keyword templates, stored in catalogs by locale.
+ * Lookups fall back on the language of a regional locale, like "fr" for "fr-CA", then on the fallback locale.
+ * @class
+ * @implements ConversionFactory<Partial<KeywordError>, string>
+ * @param {Record<string, KeywordMessageTemplates>} catalogs - templates mapped by locale
+ * @param {string} locale - locale used when none is specified
+ * @param {string} fallbackLocale - locale used when the requested locale has no matching template
+ */
+export class KeywordErrorMessageFormatter implements ConversionFactory<Partial<KeywordError>, string> {
+  catalogs: Record<string, KeywordMessageTemplates>
+  locale: string
+  fallbackLocale: string
+  fallbackKey = '*'
+  stringify: Convert<any, string> = stringifyMessageValue
+
+  constructor (
+    catalogs: Record<string, KeywordMessageTemplates> = {},
+    locale = 'en',
+    fallbackLocale = 'en'
+  ) {
+    this.catalogs = catalogs
+    this.locale = locale
+    this.fallbackLocale = fallbackLocale
+  }
+
+  /**
+   * Adds templates to a locale's catalog, replacing any existing templates for the same keywords.
+   * Templates stored under the fallback key are used for keywords without a template of their own.
+   * @function
+   * @param {KeywordMessageTemplates} templates - templates to be added
+   * @param {string} locale - catalog to add the templates to
+   */
+  registerTemplates (
+    templates: KeywordMessageTemplates,
+    locale = this.fallbackLocale
+  ): void {
+    this.catalogs[locale] = {
+      ...this.catalogs[locale],
+      ...templates
+    }
+  }
+
+  /**
+   * Finds the template for a keyword in the requested locale.
+   * @function
+   * @param {string | undefined} keyword - keyword of the target error
+   * @param {string} locale - requested locale
+   * @returns {string | undefined}
+   */
+  getTemplate (
+    keyword: string | undefined,
+    locale = this.locale
+  ): string | undefined {
+    const locales = [locale, locale.split('-')[0], this.fallbackLocale]
+    const keys = keyword != null ? [keyword, this.fallbackKey] : [this.fallbackKey]
+    for (const key of keys) {
+      for (const localeKey of locales) {
+        const template = this.catalogs[localeKey]?.[key]
+        if (template != null) return template
+      }
+    }
+  }
+
+  /**
+   * Creates a message for the provided error.
+   * @function
+   * @param {Partial<KeywordError>} error - error to be described
+   * @param {string} locale - language the message should be in
+   * @returns {string}
+   */
+  process (
+    error: Partial<KeywordError>,
+    locale = this.locale
+  ): string {
+    const template = this.getTemplate(error.keyword, locale)
+    if (template == null) {
+      return error.keyword ?? ''
+    }
+    const params: Record<string, any> = {
+      keyword: error.keyword,
+      value: error.value,
+      target: error.target,
+      instancePath: createJSONPointer(error.instancePath ?? [])
+    }
+    if (error.keyword != null) {
+      params[error.keyword] = error.value
+    }
+    return template.replace(
+      /\{([^{}]+)\}/g,
+      (match: string, name: string) => name in params ? this.stringify(params[name]) : match
+    )
+  }
+}
+
+/**
+ * Converts a value to text for use in a message, listing array items and serializing objects.
+ * @function
+ * @param {any} value - value to be converted
+ * @returns {string}
+ */
+export function stringifyMessageValue (value: any): string {
+  if (Array.isArray(value)) {
+    return value.map((item) => stringifyMessageValue(item)).join(', ')
+  }
+  if (typeof value === 'object' && value != null) {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
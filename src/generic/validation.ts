@@ -29,6 +29,14 @@ export interface ValidationParser<ValidationType = boolean> {
    * @returns {number}
    */
   rateValidity: Convert<ValidationType, number>
+  /**
+   * Combines two validation objects, preserving any details either carries.
+   * @function
+   * @param {ValidationType} a - first validation
+   * @param {ValidationType} b - second validation
+   * @returns {ValidationType}
+   */
+  merge?: (a: ValidationType, b: ValidationType) => ValidationType
 }
 
 /**
@@ -53,11 +61,13 @@ export class BooleanValidationParser implements ValidationParser {
 /**
  * Object wrapper for a list of errors.
  * @interface
- * @template ErrorType
+ * @template ErrorType, AnnotationType
  * @property {ErrorType[]} errors - list of errors encountered
+ * @property {AnnotationType[] | undefined} annotations - details collected by passing checks
  */
-export interface ErrorLog<ErrorType = string> {
+export interface ErrorLog<ErrorType = string, AnnotationType = any> {
   errors: ErrorType[]
+  annotations?: AnnotationType[]
 }
 
 /**
@@ -79,27 +89,77 @@ implements ValidationParser<ErrorLog<T>> {
   rateValidity (value: ErrorLog<T>): number {
     return 1 - value.errors.length
   }
+
+  merge (a: ErrorLog<T>, b: ErrorLog<T>): ErrorLog<T> {
+    const result: ErrorLog<T> = {
+      errors: a.errors.concat(b.errors)
+    }
+    if (a.annotations != null || b.annotations != null) {
+      result.annotations = (a.annotations ?? []).concat(b.annotations ?? [])
+    }
+    return result
+  }
+}
+
+let allErrorsDepth = 0
+
+/**
+ * Runs a callback with validation in all errors mode, where validators keep going after a failure and report every error they find.
+ * The mode is tracked by a module level counter rather than passed to each validator, so it also applies to unrelated enforcers the callback runs, such as from within a custom keyword.
+ * Validation is synchronous, so calls made outside the callback are never affected.
+ * @function
+ * @template T
+ * @param {() => T} callback - function that performs the validation
+ * @returns {T}
+ */
+export function collectAllErrors<T> (
+  callback: () => T
+): T {
+  allErrorsDepth++
+  try {
+    return callback()
+  } finally {
+    allErrorsDepth--
+  }
+}
+
+/**
+ * Checks if validation is currently running in all errors mode.
+ * @function
+ * @returns {boolean}
+ */
+export function isCollectingAllErrors (): boolean {
+  return allErrorsDepth > 0
 }
 
 /**
  * Combines multiple validation functions into a single function, returning the first falsey validation.
+ * If the parser supports merging, details from passing validations are carried into the final result.
+ * In all errors mode, every step is run and their results merged instead.
  * @function
  * @template ValidationType
  * @param {Array<Convert<any, ValidationType>>} steps - callbacks to be merged
  * @param {ValidationParser<ValidationType>} validationParser - evaluates validation results
+ * @param {boolean} allErrors - always run every step, rather than only doing so in all errors mode
  * @returns {Convert<any, ValidationType>}
  */
 export function mergeValidateSteps<ValidationType = boolean> (
   steps: Array<Convert<any, ValidationType>>,
-  validationParser: ValidationParser<ValidationType>
+  validationParser: ValidationParser<ValidationType>,
+  allErrors = false
 ): Convert<any, ValidationType> {
   return (value: any) => {
+    const collecting = validationParser.merge != null && (allErrors || isCollectingAllErrors())
+    let result = validationParser.getValid()
     for (const validate of steps) {
       const validation = validate(value)
-      if (!validationParser.isValid(validation)) {
+      if (!collecting && !validationParser.isValid(validation)) {
         return validation
       }
+      if (validationParser.merge != null) {
+        result = validationParser.merge(result, validation)
+      }
     }
-    return validationParser.getValid()
+    return result
   }
 }
@@ -2,5 +2,17 @@ export * from './generic/options'
 export * from './generic/coercion'
 export * from './generic/validation'
 export * from './generic/keywords'
+export * from './generic/messages'
 export * from './json-schema/options'
 export * from './json-schema/coercion'
+export * from './json-schema/arrays'
+export * from './json-schema/composition'
+export * from './json-schema/numeric'
+export * from './json-schema/objects'
+export * from './json-schema/strings'
+export * from './json-schema/formats'
+export * from './json-schema/references'
+export * from './json-schema/unevaluated'
+export * from './json-schema/annotations'
+export * from './json-schema/output'
+export * from './json-schema/messages'
@@ -0,0 +1,142 @@
+import type { ConversionFactory, UntypedObject, ValueConstraint } from '../generic/coercion'
+import { type ErrorLog, collectAllErrors } from '../generic/validation'
+import {
+  type KeywordAnnotation,
+  type KeywordError,
+  type KeywordRule,
+  createJSONPointer
+} from '../generic/keywords'
+import type { FlagOrObject, JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Standard list of JSON schema metadata keywords reported as annotations.
+ * @constant
+ */
+export const JSON_SCHEMA_ANNOTATION_KEYWORDS: string[] = [
+  'title',
+  'description',
+  'readOnly',
+  'writeOnly',
+  'deprecated',
+  'examples',
+  'default'
+]
+
+/**
+ * Reports the value of a schema property as an annotation without placing any constraints on the target value.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaAnnotationRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword: string
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (value !== undefined) {
+      const annotation: KeywordAnnotation = {
+        keyword: this.keyword,
+        value,
+        schemaPath: [this.keyword]
+      }
+      return {
+        validate: (target: any) => ({
+          errors: [],
+          annotations: [annotation]
+        })
+      }
+    }
+  }
+}
+
+/**
+ * Generates annotation rules for the standard JSON schema metadata keywords.
+ * The default keyword is left out, as it's rule provides that annotation.
+ * @function
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaAnnotationRules (): KeywordRule[] {
+  return JSON_SCHEMA_ANNOTATION_KEYWORDS
+    .filter((keyword) => keyword !== 'default')
+    .map((keyword) => new JSONSchemaAnnotationRule(keyword))
+}
+
+/**
+ * Annotation values for a single instance location, mapped by keyword.
+ * Values are listed in the order they were found, as several subschemas may annotate the same location.
+ * @type
+ */
+export type JSONSchemaLocationAnnotations = Record<string, any[]>
+
+/**
+ * Groups annotations by the JSON pointer to their instance location.
+ * @function
+ * @param {KeywordAnnotation[]} annotations - annotations to be grouped
+ * @param {string[] | undefined} keywords - keywords to be included, defaulting to all of them
+ * @returns {Record<string, JSONSchemaLocationAnnotations>}
+ */
+export function groupAnnotationsByLocation (
+  annotations: KeywordAnnotation[],
+  keywords?: string[]
+): Record<string, JSONSchemaLocationAnnotations> {
+  const results: Record<string, JSONSchemaLocationAnnotations> = {}
+  for (const annotation of annotations) {
+    if (keywords != null && !keywords.includes(annotation.keyword)) continue
+    const location = createJSONPointer(annotation.instancePath ?? [])
+    if (results[location] == null) {
+      results[location] = {}
+    }
+    const locationAnnotations = results[location]
+    if (locationAnnotations[annotation.keyword] == null) {
+      locationAnnotations[annotation.keyword] = []
+    }
+    locationAnnotations[annotation.keyword].push(annotation.value)
+  }
+  return results
+}
+
+/**
+ * Collects metadata annotations for each location within a value by validating it against a schema.
+ * Validation runs in all errors mode, so a schema's metadata is still collected when the value fails some of it's other keywords, such as required.
+ * Annotations from within a failing property, item, or composition branch are still left out, per the JSON schema specification.
+ * @class
+ * @param {ConversionFactory<FlagOrObject, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} enforcerFactory - produces schema enforcers
+ * @param {string[]} keywords - keywords whose annotations should be collected
+ */
+export class JSONSchemaAnnotationCollector {
+  enforcerFactory: ConversionFactory<FlagOrObject, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>
+  keywords: string[]
+
+  constructor (
+    enforcerFactory: ConversionFactory<FlagOrObject, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>,
+    keywords = JSON_SCHEMA_ANNOTATION_KEYWORDS
+  ) {
+    this.enforcerFactory = enforcerFactory
+    this.keywords = keywords
+  }
+
+  /**
+   * Gets the annotations for each location within the provided value, mapped by JSON pointer.
+   * @function
+   * @param {FlagOrObject} schema - schema to be applied
+   * @param {any} value - value to be evaluated
+   * @returns {Record<string, JSONSchemaLocationAnnotations>}
+   */
+  collect (
+    schema: FlagOrObject,
+    value: any
+  ): Record<string, JSONSchemaLocationAnnotations> {
+    const enforcer = this.enforcerFactory.process(schema)
+    const validation = collectAllErrors(() => enforcer.validate(value))
+    return groupAnnotationsByLocation(validation.annotations ?? [], this.keywords)
+  }
+}
@@ -0,0 +1,667 @@
+import {
+  type UntypedObject,
+  type ValueConstraint,
+  coerceNested,
+  isEquivalentTo,
+  recordCoercionChange,
+  reportCoercion,
+  traverseValue
+} from '../generic/coercion'
+import { type ErrorLog, isCollectingAllErrors } from '../generic/validation'
+import {
+  type KeywordAnnotation,
+  type KeywordEnforcerContext,
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer,
+  countKeywordFailures,
+  nestKeywordAnnotations,
+  nestKeywordErrors
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Applies subschema enforcers to the items of an array.
+ * Positional enforcers are stored by index while the trailing enforcer is stored under the keyword.
+ * @class
+ * @implements ValueConstraint<any[], ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {Array<ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} itemEnforcers - enforcers for the leading items
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined} additionalEnforcer - enforcer for all items after the start index
+ * @param {number} startIndex - index of the first item covered by the additional enforcer
+ * @param {number} priority - relative importance of item errors without a priority of their own
+ */
+export class JSONSchemaItemsEnforcer
+implements ValueConstraint<any[], ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  keyword: string
+  value: any
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  itemEnforcers: Array<ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>
+  additionalEnforcer?: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  startIndex: number
+  priority: number
+  removeInvalid = true
+
+  constructor (
+    keyword: string,
+    value: any,
+    itemEnforcers: Array<ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>,
+    additionalEnforcer?: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    startIndex = itemEnforcers.length,
+    priority = 50
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.itemEnforcers = itemEnforcers
+    this.additionalEnforcer = additionalEnforcer
+    this.startIndex = startIndex
+    this.priority = priority
+    for (let i = 0; i < itemEnforcers.length; i++) {
+      this.enforcers[String(i)] = itemEnforcers[i]
+    }
+    if (additionalEnforcer != null) {
+      this.enforcers[keyword] = additionalEnforcer
+    }
+  }
+
+  /**
+   * Gets the enforcer that applies to a particular index.
+   * @function
+   * @param {number} index - position of the target item
+   * @returns {ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined}
+   */
+  getEnforcerAt (
+    index: number
+  ): ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined {
+    if (index < this.itemEnforcers.length) {
+      return this.itemEnforcers[index]
+    }
+    if (index >= this.startIndex) {
+      return this.additionalEnforcer
+    }
+  }
+
+  /**
+   * Gets the location of the subschema that applies to a particular index.
+   * @function
+   * @param {number} index - position of the target item
+   * @returns {Array<string | number>}
+   */
+  getSchemaPathAt (
+    index: number
+  ): Array<string | number> {
+    return index < this.itemEnforcers.length
+      ? [this.keyword, index]
+      : [this.keyword]
+  }
+
+  validate (target: any[]): ErrorLog<KeywordError, KeywordAnnotation> {
+    return traverseValue(target, () => {
+      const evaluatedIndices: number[] = []
+      let annotations: KeywordAnnotation[] = []
+      let errors: KeywordError[] = []
+      for (let i = 0; i < target.length; i++) {
+        const enforcer = this.getEnforcerAt(i)
+        if (enforcer == null) continue
+        evaluatedIndices.push(i)
+        const schemaPath = this.getSchemaPathAt(i)
+        const validation = enforcer.validate(target[i])
+        annotations = annotations.concat(nestKeywordAnnotations(validation.annotations, i, schemaPath))
+        if (validation.errors.length > 0) {
+          errors = errors.concat(
+            nestKeywordErrors(
+              validation.errors,
+              i,
+              {
+                keyword: this.keyword,
+                value: this.value,
+                target: target[i],
+                priority: this.priority,
+                coerce: (value: any[]) => this.coerce(value)
+              },
+              schemaPath
+            )
+          )
+          if (!isCollectingAllErrors() && countKeywordFailures(validation) > 0) {
+            return { errors }
+          }
+        }
+      }
+      if (countKeywordFailures({ errors }) > 0) {
+        return { errors }
+      }
+      annotations.unshift({
+        keyword: this.keyword,
+        value: evaluatedIndices,
+        schemaPath: [this.keyword]
+      })
+      return { errors, annotations }
+    })
+  }
+
+  /**
+   * Coerces each item with it's enforcer, padding out to cover the positional enforcers.
+   * Invalid items whose enforcer provides no coercion are removed, if removeInvalid is set.
+   * Items are matched to enforcers by their position in the result, so an item after a removed one takes it's place, and changes are reported at those positions.
+   * @function
+   * @param {any[]} target - array to be coerced
+   * @returns {any[]}
+   */
+  coerce (target: any[]): any[] {
+    return traverseValue(target, () => {
+      const results: any[] = []
+      for (const item of target) {
+        const index = results.length
+        const enforcer = this.getEnforcerAt(index)
+        if (enforcer == null) {
+          results.push(item)
+        } else if (enforcer.coerce != null) {
+          const coerce = enforcer.coerce.bind(enforcer)
+          results.push(coerceNested(index, () => coerce(item)))
+        } else if (!this.removeInvalid || countKeywordFailures(enforcer.validate(item)) < 1) {
+          results.push(item)
+        } else {
+          recordCoercionChange({
+            keyword: this.keyword,
+            instancePath: [index],
+            before: item,
+            after: undefined,
+            reason: 'removed invalid item'
+          })
+        }
+      }
+      const itemCount = results.length
+      for (let index = itemCount; index < this.itemEnforcers.length; index++) {
+        const enforcer = this.itemEnforcers[index]
+        const coerce = enforcer.coerce?.bind(enforcer)
+        results.push(coerce != null ? coerceNested(index, () => coerce(undefined)) : undefined)
+      }
+      // Positions that padding couldn't fill are trimmed off, rather than left as undefined.
+      while (results.length > itemCount && results[results.length - 1] === undefined) {
+        results.pop()
+      }
+      return results
+    })
+  }
+}
+
+/**
+ * Handles the JSON schema prefixItems keyword, treating the array as a tuple.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaPrefixItemsRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'prefixItems'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (Array.isArray(value) && factory != null) {
+      const itemEnforcers = value.map((subschema) => factory.process(subschema, context))
+      const enforcer = new JSONSchemaItemsEnforcer(this.keyword, value, itemEnforcers)
+      enforcer.removeInvalid = context?.coercionPolicy?.allowLossy ?? true
+      return enforcer
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema items keyword, applying it's subschema to all items after any prefix items.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} prefixKeyword - schema property for leading tuple items
+ * @param {boolean} prefixRequired - only apply when there are prefix items, as with additionalItems in older drafts
+ */
+export class JSONSchemaItemsRule implements KeywordRule {
+  keyword: string
+  prefixKeyword: string
+  prefixRequired: boolean
+
+  constructor (
+    keyword = 'items',
+    prefixKeyword = 'prefixItems',
+    prefixRequired = false
+  ) {
+    this.keyword = keyword
+    this.prefixKeyword = prefixKeyword
+    this.prefixRequired = prefixRequired
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (
+      factory != null &&
+      (typeof value === 'boolean' || (typeof value === 'object' && value != null && !Array.isArray(value)))
+    ) {
+      const prefixItems = schema[this.prefixKeyword]
+      if (this.prefixRequired && !Array.isArray(prefixItems)) return undefined
+      const startIndex = Array.isArray(prefixItems) ? prefixItems.length : 0
+      const enforcer = new JSONSchemaItemsEnforcer(
+        this.keyword,
+        value,
+        [],
+        factory.process(value, context),
+        startIndex
+      )
+      enforcer.removeInvalid = context?.coercionPolicy?.allowLossy ?? true
+      return enforcer
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema minItems keyword.
+ * Short arrays are padded with the default value of the matching item subschema.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} itemsKeyword - schema property for trailing items
+ * @param {string} prefixKeyword - schema property for leading tuple items
+ */
+export class JSONSchemaMinItemsRule implements KeywordRule {
+  keyword: string
+  itemsKeyword: string
+  prefixKeyword: string
+
+  constructor (
+    keyword = 'minItems',
+    itemsKeyword = 'items',
+    prefixKeyword = 'prefixItems'
+  ) {
+    this.keyword = keyword
+    this.itemsKeyword = itemsKeyword
+    this.prefixKeyword = prefixKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        (target: any[]) => target.length >= limit,
+        (target: any[]) => {
+          if (target.length >= limit) return target
+          const results = target.slice()
+          while (results.length < limit) {
+            const index = results.length
+            const item = reportCoercion(() => this.getPaddingAt(index, schema, context)).value
+            results.push(item)
+            recordCoercionChange({
+              instancePath: [index],
+              before: undefined,
+              after: item,
+              reason: 'added item'
+            })
+          }
+          return results
+        },
+        50
+      )
+    }
+  }
+
+  /**
+   * Gets the value to be inserted at a given index when padding out an array.
+   * @function
+   * @param {number} index - position of the new item
+   * @param {UntypedObject} schema - schema containing the item subschemas
+   * @param {JSONSchemaEnforcerContext | undefined} context - provides the subschema factory
+   * @returns {any}
+   */
+  getPaddingAt (
+    index: number,
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): any {
+    const prefixItems = schema[this.prefixKeyword]
+    const subschema = Array.isArray(prefixItems) && index < prefixItems.length
+      ? prefixItems[index]
+      : schema[this.itemsKeyword]
+    if (typeof subschema === 'object' && subschema != null && !Array.isArray(subschema)) {
+      // Any default is applied by the subschema's own enforcer, which skips defaults that fail the subschema.
+      const enforcer = context?.subschemaFactory?.process(subschema, context)
+      return enforcer?.coerce?.(undefined)
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema maxItems keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaMaxItemsRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'maxItems'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        (target: any[]) => target.length <= limit,
+        (target: any[]) => target.length > limit && allowLossy
+          ? target.slice(0, Math.max(0, limit))
+          : target,
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema uniqueItems keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaUniqueItemsRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'uniqueItems'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (value === true) {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      return new KeywordValueEnforcer(
+        this.keyword,
+        value,
+        (target: any[]) => getUniqueItems(target).length === target.length,
+        (target: any[]) => allowLossy ? getUniqueItems(target) : target,
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Returns a copy of the provided array with equivalent items removed, keeping the first of each.
+ * @function
+ * @param {any[]} items - array to be filtered
+ * @returns {any[]}
+ */
+export function getUniqueItems (items: any[]): any[] {
+  const results: any[] = []
+  for (const item of items) {
+    const duplicate = results.some((result) => isEquivalentTo(result, item))
+    if (!duplicate) {
+      results.push(item)
+    }
+  }
+  return results
+}
+
+/**
+ * Checks how many items of an array match a subschema.
+ * @class
+ * @implements ValueConstraint<any[], ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} itemEnforcer - subschema matching items should pass
+ * @param {KeywordError | undefined} minimum - minimum number of matches and the keyword that set it
+ * @param {KeywordError | undefined} maximum - maximum number of matches and the keyword that set it
+ */
+export class JSONSchemaContainsEnforcer
+implements ValueConstraint<any[], ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  keyword: string
+  value: any
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  itemEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  minimum: number
+  minimumKeyword: string
+  maximum?: number
+  maximumKeyword: string
+  priority = 50
+  removeExcess = true
+
+  constructor (
+    keyword: string,
+    value: any,
+    itemEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    minimum = 1,
+    minimumKeyword = keyword,
+    maximum?: number,
+    maximumKeyword = keyword
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.itemEnforcer = itemEnforcer
+    this.enforcers[keyword] = itemEnforcer
+    this.minimum = minimum
+    this.minimumKeyword = minimumKeyword
+    this.maximum = maximum
+    this.maximumKeyword = maximumKeyword
+  }
+
+  /**
+   * Checks if an item matches the target subschema.
+   * @function
+   * @param {any} item - value to be evaluated
+   * @returns {boolean}
+   */
+  matches (item: any): boolean {
+    return countKeywordFailures(this.itemEnforcer.validate(item)) < 1
+  }
+
+  validate (target: any[]): ErrorLog<KeywordError, KeywordAnnotation> {
+    return traverseValue(target, () => {
+      const matchedIndices: number[] = []
+      for (let i = 0; i < target.length; i++) {
+        if (this.matches(target[i])) {
+          matchedIndices.push(i)
+        }
+      }
+      const matchCount = matchedIndices.length
+      if (matchCount < this.minimum) {
+        return {
+          errors: [
+            {
+              keyword: this.minimumKeyword,
+              value: this.minimumKeyword === this.keyword ? this.value : this.minimum,
+              target,
+              priority: this.priority,
+              coerce: (value: any[]) => this.coerce(value),
+              instancePath: [],
+              schemaPath: []
+            }
+          ]
+        }
+      }
+      if (this.maximum != null && matchCount > this.maximum) {
+        return {
+          errors: [
+            {
+              keyword: this.maximumKeyword,
+              value: this.maximum,
+              target,
+              priority: this.priority,
+              coerce: (value: any[]) => this.coerce(value),
+              instancePath: [],
+              schemaPath: []
+            }
+          ]
+        }
+      }
+      return {
+        errors: [],
+        annotations: [
+          {
+            keyword: this.keyword,
+            value: matchedIndices,
+            schemaPath: [this.keyword]
+          }
+        ]
+      }
+    })
+  }
+
+  /**
+   * Adds coerced items to reach the minimum number of matches and removes trailing matches past the maximum, if removeExcess is set.
+   * @function
+   * @param {any[]} target - array to be coerced
+   * @returns {any[]}
+   */
+  coerce (target: any[]): any[] {
+    return traverseValue(target, () => {
+      let matchCount = target.filter((item) => this.matches(item)).length
+      const results = target.slice()
+      if (this.removeExcess && this.maximum != null && matchCount > this.maximum) {
+        for (let i = results.length - 1; i >= 0 && matchCount > this.maximum; i--) {
+          if (this.matches(results[i])) {
+            recordCoercionChange({
+              instancePath: [i],
+              before: results[i],
+              after: undefined,
+              reason: 'removed excess match'
+            })
+            results.splice(i, 1)
+            matchCount--
+          }
+        }
+      }
+      const coerce = this.itemEnforcer.coerce
+      if (matchCount < this.minimum && coerce != null) {
+        const item = reportCoercion(() => coerce.call(this.itemEnforcer, undefined)).value
+        if (this.matches(item)) {
+          while (matchCount < this.minimum) {
+            recordCoercionChange({
+              instancePath: [results.length],
+              before: undefined,
+              after: item,
+              reason: 'added matching item'
+            })
+            results.push(structuredClone(item))
+            matchCount++
+          }
+        }
+      }
+      return results
+    })
+  }
+}
+
+/**
+ * Handles the JSON schema contains keyword, along with it's minContains and maxContains modifiers.
+ * Clearing a modifier's keyword leaves it out, as for drafts that predate it.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} minimumKeyword - schema property for the minimum number of matches
+ * @param {string} maximumKeyword - schema property for the maximum number of matches
+ */
+export class JSONSchemaContainsRule implements KeywordRule {
+  keyword: string
+  minimumKeyword?: string
+  maximumKeyword?: string
+
+  constructor (
+    keyword = 'contains',
+    minimumKeyword = 'minContains',
+    maximumKeyword = 'maxContains'
+  ) {
+    this.keyword = keyword
+    this.minimumKeyword = minimumKeyword
+    this.maximumKeyword = maximumKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && factory != null) {
+      const minimum = this.minimumKeyword != null ? schema[this.minimumKeyword] : undefined
+      const maximum = this.maximumKeyword != null ? schema[this.maximumKeyword] : undefined
+      const enforcer = new JSONSchemaContainsEnforcer(
+        this.keyword,
+        value,
+        factory.process(value, context),
+        typeof minimum === 'number' ? minimum : 1,
+        typeof minimum === 'number' ? this.minimumKeyword ?? this.keyword : this.keyword,
+        typeof maximum === 'number' ? maximum : undefined,
+        this.maximumKeyword ?? this.keyword
+      )
+      enforcer.removeExcess = context?.coercionPolicy?.allowLossy ?? true
+      return enforcer
+    }
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema array keyword rules.
+ * @function
+ * @param {boolean} tupleItems - use the pre 2020-12 array form of items, with additionalItems covering the rest
+ * @param {string[]} excludedKeywords - keywords to leave out, including the contains modifiers
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaArrayRules (
+  tupleItems = false,
+  excludedKeywords: string[] = []
+): KeywordRule[] {
+  const itemRules = tupleItems
+    ? [
+        new JSONSchemaPrefixItemsRule('items'),
+        new JSONSchemaItemsRule('items', 'items'),
+        new JSONSchemaItemsRule('additionalItems', 'items', true)
+      ]
+    : [
+        new JSONSchemaPrefixItemsRule(),
+        new JSONSchemaItemsRule()
+      ]
+  const containsRule = new JSONSchemaContainsRule()
+  if (excludedKeywords.includes('minContains')) {
+    containsRule.minimumKeyword = undefined
+  }
+  if (excludedKeywords.includes('maxContains')) {
+    containsRule.maximumKeyword = undefined
+  }
+  return [
+    ...itemRules,
+    new JSONSchemaUniqueItemsRule(),
+    containsRule,
+    new JSONSchemaMaxItemsRule(),
+    new JSONSchemaMinItemsRule()
+  ]
+}
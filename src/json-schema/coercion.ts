@@ -1,42 +1,99 @@
 import {
+  type CoercionPolicy,
   type ConversionFactory,
+  type DelimitedTextFormat,
+  type ScalarParsingProfile,
   type SchemaEnforcer,
   type UntypedObject,
   type ValueConstraint,
   AnyValueEnforcer,
   ArrayEnforcer,
+  BigIntEnforcer,
   BooleanEnforcer,
+  DateEnforcer,
+  MapEnforcer,
   NumberEnforcer,
+  RegExpEnforcer,
+  SetEnforcer,
   SteppedNumberEnforcer,
   ObjectEnforcer,
   StrictEqualityEnforcer,
   StringEnforcer,
+  Uint8ArrayEnforcer,
+  ValueTypeEnforcer,
   echoValue,
-  isEquivalentTo
+  isEquivalentTo,
+  recordCoercionChange,
+  reportCoercion
 } from '../generic/coercion'
-import { type ErrorLog } from '../generic/validation'
+import { type Convert, type ErrorLog, collectAllErrors } from '../generic/validation'
 import {
+  type KeywordAnnotation,
   type KeywordEnforcerContext,
   type KeywordError,
   type KeywordRule,
   type KeywordRulesEnforcer,
   TypeKeywordRule,
   KeywordEnforcerFork,
+  KeywordErrorLogValidationParser,
   KeywordValueEnforcer,
-  SequentialKeywordEnforcerFactory
+  SequentialKeywordEnforcerFactory,
+  SiblingKeywordsEnforcer
 } from '../generic/keywords'
+import { createJSONSchemaAnnotationRules } from './annotations'
+import { createJSONSchemaArrayRules } from './arrays'
+import { createJSONSchemaCompositionRules } from './composition'
+import { JSONSchemaFormatRule } from './formats'
+import { createJSONSchemaNumericRules } from './numeric'
+import { createJSONSchemaObjectRules } from './objects'
+import { JSONSchemaRefRule, JSONSchemaRegistry, splitURIFragment } from './references'
+import { createJSONSchemaStringRules } from './strings'
+import { createJSONSchemaUnevaluatedRules } from './unevaluated'
+
+/**
+ * Describes how a JSON schema draft's keywords differ from the latest draft.
+ * @interface
+ * @property {boolean | undefined} exclusiveFlags - exclusiveMinimum and exclusiveMaximum are boolean modifiers, as in draft 4
+ * @property {boolean | undefined} tupleItems - items may be an array of positional subschemas, with additionalItems covering the rest
+ * @property {boolean | undefined} combinedDependencies - dependencies is used in place of dependentRequired and dependentSchemas
+ * @property {string[] | undefined} excludedKeywords - keywords the draft doesn't support
+ */
+export interface JSONSchemaDraftOptions {
+  exclusiveFlags?: boolean
+  tupleItems?: boolean
+  combinedDependencies?: boolean
+  excludedKeywords?: string[]
+}
+
+/**
+ * Removes rules for the provided keywords.
+ * @function
+ * @param {KeywordRule[]} rules - rules to be filtered
+ * @param {string[]} keywords - keywords to be removed
+ * @returns {KeywordRule[]}
+ */
+function excludeKeywordRules (
+  rules: KeywordRule[],
+  keywords: string[] = []
+): KeywordRule[] {
+  return rules.filter((rule) => !keywords.includes(rule.keyword))
+}
 
 /**
  * Generates rules for resolving potential values of the JSON schema type keyword.
  * @function
  * @param {string} keyword - type keyword
  * @param {string | undefined} valueProperty - value property to be passed onto each subrule
+ * @param {JSONSchemaDraftOptions} options - keyword differences for the target draft
  * @returns {Record<string, TypeKeywordRule>}
  */
 function createJSONSchemaTypeRules (
   keyword = 'type',
-  valueProperty?: string
+  valueProperty?: string,
+  options: JSONSchemaDraftOptions = {}
 ): Record<string, TypeKeywordRule> {
+  const createTypedKeywords = (rules: KeywordRule[]): SequentialKeywordEnforcerFactory =>
+    new SequentialKeywordEnforcerFactory(excludeKeywordRules(rules, options.excludedKeywords))
   return {
     any: new TypeKeywordRule(
       keyword,
@@ -44,7 +101,8 @@ function createJSONSchemaTypeRules (
     ),
     array: new TypeKeywordRule(
       keyword,
-      new ArrayEnforcer(undefined, valueProperty)
+      new ArrayEnforcer(undefined, valueProperty),
+      createTypedKeywords(createJSONSchemaArrayRules(options.tupleItems, options.excludedKeywords))
     ),
     boolean: new TypeKeywordRule(
       keyword,
@@ -52,7 +110,8 @@ function createJSONSchemaTypeRules (
     ),
     integer: new TypeKeywordRule(
       keyword,
-      new SteppedNumberEnforcer(0, 1, valueProperty)
+      new SteppedNumberEnforcer(0, 1, valueProperty),
+      createTypedKeywords(createJSONSchemaNumericRules(1, options.exclusiveFlags))
     ),
     null: new TypeKeywordRule(
       keyword,
@@ -60,27 +119,119 @@ function createJSONSchemaTypeRules (
     ),
     number: new TypeKeywordRule(
       keyword,
-      new NumberEnforcer(0, valueProperty)
+      new NumberEnforcer(0, valueProperty),
+      createTypedKeywords(createJSONSchemaNumericRules(undefined, options.exclusiveFlags))
     ),
     object: new TypeKeywordRule(
       keyword,
-      new ObjectEnforcer(undefined, valueProperty)
+      new ObjectEnforcer(undefined, valueProperty),
+      createTypedKeywords(createJSONSchemaObjectRules(true, options.combinedDependencies))
     ),
     string: new TypeKeywordRule(
       keyword,
-      new StringEnforcer('', valueProperty)
+      new StringEnforcer('', valueProperty),
+      createTypedKeywords(createJSONSchemaStringRules())
     )
   }
 }
 
+/**
+ * Generates type rules for JavaScript values that JSON lacks, like dates and sets.
+ * These can be added to a type rule's typeRules to support schemas like { "type": "date" }.
+ * @function
+ * @param {string} keyword - type keyword
+ * @param {string | undefined} valueProperty - value property to be passed onto each subrule
+ * @returns {Record<string, TypeKeywordRule>}
+ */
+export function createJSONSchemaExtendedTypeRules (
+  keyword = 'type',
+  valueProperty?: string
+): Record<string, TypeKeywordRule> {
+  return {
+    bigint: new TypeKeywordRule(
+      keyword,
+      new BigIntEnforcer(undefined, valueProperty)
+    ),
+    date: new TypeKeywordRule(
+      keyword,
+      new DateEnforcer(undefined, valueProperty)
+    ),
+    map: new TypeKeywordRule(
+      keyword,
+      new MapEnforcer(undefined, valueProperty)
+    ),
+    regexp: new TypeKeywordRule(
+      keyword,
+      new RegExpEnforcer(undefined, valueProperty)
+    ),
+    set: new TypeKeywordRule(
+      keyword,
+      new SetEnforcer(undefined, valueProperty)
+    ),
+    uint8array: new TypeKeywordRule(
+      keyword,
+      new Uint8ArrayEnforcer(undefined, valueProperty)
+    )
+  }
+}
+
+/**
+ * Applies the keywords for whichever type the value has, for schemas without a type keyword.
+ * Values that don't have any of those types pass unchanged.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {Record<string, Convert<any, boolean>>} typeChecks - checks if a value has the target type, by type name
+ * @param {Record<string, KeywordRulesEnforcer>} enforcers - enforcers for each type's keywords, by type name
+ */
+export class JSONSchemaImplicitTypeEnforcer
+implements ValueConstraint<any, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  typeChecks: Record<string, Convert<any, boolean>>
+  enforcers: Record<string, KeywordRulesEnforcer>
+
+  constructor (
+    typeChecks: Record<string, Convert<any, boolean>>,
+    enforcers: Record<string, KeywordRulesEnforcer>
+  ) {
+    this.typeChecks = typeChecks
+    this.enforcers = enforcers
+  }
+
+  /**
+   * Gets the keyword enforcer for the value's type.
+   * @function
+   * @param {any} target - value to be evaluated
+   * @returns {KeywordRulesEnforcer | undefined}
+   */
+  getEnforcerFor (target: any): KeywordRulesEnforcer | undefined {
+    for (const typeName in this.enforcers) {
+      if (this.typeChecks[typeName](target)) {
+        return this.enforcers[typeName]
+      }
+    }
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    return this.getEnforcerFor(target)?.validate(target) ?? { errors: [] }
+  }
+
+  coerce (target: any): any {
+    const enforcer = this.getEnforcerFor(target)
+    return enforcer?.coerce != null ? enforcer.coerce(target) : target
+  }
+}
+
 /**
  * Handles the JSON schema type keyword.
+ * Schemas without a type still get the keywords of the implicit types applied to values of those types.
  * @class
  * @implements KeywordRule
  */
 export class JSONSchemaTypeRule implements KeywordRule {
   keyword: string
   typeRules: Record<string, TypeKeywordRule>
+  defaultKeyword = 'default'
+  implicitTypes = ['array', 'number', 'object', 'string']
 
   constructor (
     keyword = 'type',
@@ -92,12 +243,17 @@ export class JSONSchemaTypeRule implements KeywordRule {
 
   getEnforcerFor (
     schema: UntypedObject,
-    context?: KeywordEnforcerContext
+    context?: JSONSchemaEnforcerContext
   ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
     const typeValue = schema[this.keyword]
+    if (typeValue === undefined) {
+      return this.getImplicitTypeEnforcer(schema, context)
+    }
     if (typeof typeValue === 'string') {
       const typeRule = this.typeRules[typeValue]
-      return typeRule?.getEnforcerFor(schema, context)
+      return typeRule != null
+        ? this.applyContext(typeRule, schema, context).getEnforcerFor(schema, context)
+        : undefined
     }
     if (Array.isArray(typeValue)) {
       const typeNames: string[] = typeValue.filter((item) => typeof item === 'string')
@@ -105,16 +261,107 @@ export class JSONSchemaTypeRule implements KeywordRule {
         .map((typeName) => this.typeRules[typeName])
         .filter((rule) => rule != null)
       const typeEnforcers = targetRules
-        .map((rule) => rule.getEnforcerFor(schema, context))
+        .map((rule) => this.applyContext(rule, schema, context).getEnforcerFor(schema, context))
         .filter((enforcer) => enforcer != null)
       const fork = new KeywordEnforcerFork(typeEnforcers, echoValue)
       return fork
     }
   }
+
+  /**
+   * Creates an enforcer for the type specific keywords in a schema without a type.
+   * @function
+   * @param {UntypedObject} schema - schema to be evaluated
+   * @param {JSONSchemaEnforcerContext | undefined} context - passed on to each type's keyword handler
+   * @returns {JSONSchemaImplicitTypeEnforcer | undefined} undefined if the schema has no such keywords
+   */
+  getImplicitTypeEnforcer (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): JSONSchemaImplicitTypeEnforcer | undefined {
+    const typeChecks: Record<string, Convert<any, boolean>> = {}
+    const enforcers: Record<string, KeywordRulesEnforcer> = {}
+    for (const typeName of this.implicitTypes) {
+      const rule = this.typeRules[typeName]
+      const enforcer = rule?.typedKeywords?.process(schema, context)
+      if (enforcer != null && Object.keys(enforcer.enforcers).length > 0) {
+        typeChecks[typeName] = (value: any) => rule.typeEnforcer.validate(value)
+        enforcers[typeName] = enforcer
+      }
+    }
+    if (Object.keys(enforcers).length > 0) {
+      return new JSONSchemaImplicitTypeEnforcer(typeChecks, enforcers)
+    }
+  }
+
+  /**
+   * Swaps in the schema's default as the type's fallback value, provided the default is of that type.
+   * @function
+   * @param {TypeKeywordRule} rule - rule for the target type
+   * @param {UntypedObject} schema - schema the default is drawn from
+   * @returns {TypeKeywordRule}
+   */
+  applyDefault (
+    rule: TypeKeywordRule,
+    schema: UntypedObject
+  ): TypeKeywordRule {
+    const value = schema[this.defaultKeyword]
+    if (value === undefined || !rule.typeEnforcer.validate(value)) return rule
+    const typeEnforcer = Object.create(rule.typeEnforcer)
+    typeEnforcer.defaultValue = structuredClone(value)
+    return new TypeKeywordRule(rule.keyword, typeEnforcer, rule.typedKeywords)
+  }
+
+  /**
+   * Has the type's enforcer follow the context's coercion policy, parsing profile, and text format.
+   * @function
+   * @param {TypeKeywordRule} rule - rule for the target type
+   * @param {JSONSchemaEnforcerContext | undefined} context - provides the coercion settings
+   * @returns {TypeKeywordRule}
+   */
+  applyCoercionSettings (
+    rule: TypeKeywordRule,
+    context?: JSONSchemaEnforcerContext
+  ): TypeKeywordRule {
+    if (!(rule.typeEnforcer instanceof ValueTypeEnforcer)) return rule
+    const policy = context?.coercionPolicy ?? rule.typeEnforcer.policy
+    const parsingProfile = context?.parsingProfile ?? rule.typeEnforcer.parsingProfile
+    const textFormat = context?.textFormats?.[rule.typeEnforcer.typeName] ?? rule.typeEnforcer.textFormat
+    if (
+      policy === rule.typeEnforcer.policy &&
+      parsingProfile === rule.typeEnforcer.parsingProfile &&
+      textFormat === rule.typeEnforcer.textFormat
+    ) return rule
+    const typeEnforcer = Object.create(rule.typeEnforcer)
+    typeEnforcer.policy = policy
+    typeEnforcer.parsingProfile = parsingProfile
+    typeEnforcer.textFormat = textFormat
+    return new TypeKeywordRule(rule.keyword, typeEnforcer, rule.typedKeywords)
+  }
+
+  /**
+   * Adapts a type's rule to the schema's default and the context's coercion settings.
+   * @function
+   * @param {TypeKeywordRule} rule - rule for the target type
+   * @param {UntypedObject} schema - schema the default is drawn from
+   * @param {JSONSchemaEnforcerContext | undefined} context - provides the coercion settings
+   * @returns {TypeKeywordRule}
+   */
+  applyContext (
+    rule: TypeKeywordRule,
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): TypeKeywordRule {
+    return this.applyCoercionSettings(
+      this.applyDefault(rule, schema),
+      context
+    )
+  }
 }
 
 /**
  * Handles the JSON schema const keyword.
+ * Coercion only fills in missing values when the coercion policy forbids lossy changes.
  * @class
  * @implements KeywordRule
  */
@@ -129,19 +376,225 @@ export class JSONSchemaConstRule implements KeywordRule {
 
   getEnforcerFor (
     schema: UntypedObject,
-    context?: KeywordEnforcerContext
+    context?: JSONSchemaEnforcerContext
   ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
     const value = schema[this.keyword]
     if (value !== undefined) {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
       return new KeywordValueEnforcer(
         this.keyword,
         value,
         (target: any) => isEquivalentTo(target, value),
-        (target: any) => structuredClone(value),
+        (target: any) => target !== undefined && !allowLossy
+          ? target
+          : structuredClone(value),
+        150
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema enum keyword.
+ * Coercion only fills in missing values when the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ */
+export class JSONSchemaEnumRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'enum'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (Array.isArray(value) && value.length > 0) {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      const check = (target: any): boolean => value.some((item) => isEquivalentTo(target, item))
+      return new KeywordValueEnforcer(
+        this.keyword,
+        value,
+        check,
+        (target: any) => check(target) || (target !== undefined && !allowLossy)
+          ? target
+          : structuredClone(this.getClosestMember(value, target)),
         150
       )
     }
   }
+
+  /**
+   * Finds the enum member most similar to the provided value.
+   * This checks for exact matches, then case insensitive string matches, then the nearest number, falling back on the first member.
+   * @function
+   * @param {any[]} members - allowed values
+   * @param {any} target - value to be matched
+   * @returns {any}
+   */
+  getClosestMember (members: any[], target: any): any {
+    const exactMatch = members.find((item) => isEquivalentTo(target, item))
+    if (exactMatch !== undefined) return exactMatch
+    if (typeof target === 'string') {
+      const text = target.toLowerCase()
+      const textMatch = members.find(
+        (item) => typeof item === 'string' && item.toLowerCase() === text
+      )
+      if (textMatch !== undefined) return textMatch
+    }
+    const num = typeof target === 'string' && target.trim() !== '' ? Number(target) : target
+    if (typeof num === 'number' && !isNaN(num)) {
+      let nearest: number | undefined
+      for (const item of members) {
+        if (
+          typeof item === 'number' &&
+          (nearest === undefined || Math.abs(item - num) < Math.abs(nearest - num))
+        ) {
+          nearest = item
+        }
+      }
+      if (nearest !== undefined) return nearest
+    }
+    return members[0]
+  }
+}
+
+/**
+ * Substitutes a schema's default value for missing values and values the rest of the schema can't repair.
+ * Repairable values are returned already repaired, so the other keyword enforcers don't repeat that work on nested values.
+ * Defaults that fail the rest of the schema are reported at negative priority and never used.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @param {string} keyword - associated schema property
+ * @param {any} value - default value
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} schemaEnforcer - enforces the rest of the schema
+ * @param {boolean} replaceInvalid - whether coercion may replace values other than undefined
+ */
+export class JSONSchemaDefaultEnforcer implements ValueConstraint<any, ErrorLog<KeywordError>> {
+  keyword: string
+  value: any
+  schemaEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  validationParser = new KeywordErrorLogValidationParser()
+  replaceInvalid: boolean
+  priority = -1
+  protected defaultValidity?: boolean
+
+  constructor (
+    keyword: string,
+    value: any,
+    schemaEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    replaceInvalid = true
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.schemaEnforcer = schemaEnforcer
+    this.replaceInvalid = replaceInvalid
+  }
+
+  /**
+   * Checks if the default value passes the rest of the schema, caching the result.
+   * @function
+   * @returns {boolean}
+   */
+  isDefaultValid (): boolean {
+    if (this.defaultValidity == null) {
+      this.defaultValidity = this.isValid(this.value)
+    }
+    return this.defaultValidity
+  }
+
+  /**
+   * Checks if a value passes the rest of the schema.
+   * @function
+   * @param {any} value - value to be evaluated
+   * @returns {boolean}
+   */
+  isValid (value: any): boolean {
+    return this.validationParser.isValid(this.schemaEnforcer.validate(value))
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    const annotations: KeywordAnnotation[] = [
+      {
+        keyword: this.keyword,
+        value: this.value,
+        schemaPath: [this.keyword]
+      }
+    ]
+    if (this.isDefaultValid()) {
+      return { errors: [], annotations }
+    }
+    return {
+      errors: [
+        {
+          keyword: this.keyword,
+          value: this.value,
+          target,
+          priority: this.priority,
+          instancePath: [],
+          schemaPath: []
+        }
+      ],
+      annotations
+    }
+  }
+
+  coerce (target: any): any {
+    if (!this.isDefaultValid()) return target
+    if (target !== undefined) {
+      if (!this.replaceInvalid || this.isValid(target)) return target
+      const coerce = this.schemaEnforcer.coerce
+      if (coerce != null) {
+        const report = reportCoercion(() => coerce.call(this.schemaEnforcer, target))
+        if (this.isValid(report.value)) {
+          for (const change of report.changes) {
+            recordCoercionChange(change)
+          }
+          return report.value
+        }
+      }
+    }
+    const result = structuredClone(this.value)
+    recordCoercionChange({ before: target, after: result, reason: 'replaced with default' })
+    return result
+  }
+}
+
+/**
+ * Handles the JSON schema default keyword.
+ * The rest of the schema is enforced through the enforcers of it's other keywords.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaDefaultRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'default'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (value !== undefined && context != null) {
+      return new JSONSchemaDefaultEnforcer(
+        this.keyword,
+        value,
+        new SiblingKeywordsEnforcer(context.enforcers, [this.keyword]),
+        context.coercionPolicy?.allowLossy ?? true
+      )
+    }
+  }
 }
 
 /**
@@ -184,6 +637,34 @@ export class JSONSchemaNoValueEnforcer implements SchemaEnforcer<boolean, ErrorL
  */
 export type FlagOrObject = boolean | UntypedObject
 
+/**
+ * Adds access to the factory used to build enforcers for nested subschemas.
+ * @interface
+ * @extends KeywordEnforcerContext
+ * @property {ConversionFactory<FlagOrObject, SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>, JSONSchemaEnforcerContext> | undefined} subschemaFactory - produces subschema enforcers
+ * @property {JSONSchemaRegistry | undefined} registry - resolves schema references
+ * @property {FlagOrObject | undefined} rootSchema - schema resource local references point into
+ * @property {string | undefined} baseURI - URI relative references are resolved against
+ * @property {JSONSchemaDialect | undefined} dialect - dialect of the containing schema
+ * @property {CoercionPolicy | undefined} coercionPolicy - conversions coercion is allowed to make
+ * @property {ScalarParsingProfile | undefined} parsingProfile - how text should be read when converting to scalar types
+ * @property {Record<string, DelimitedTextFormat> | undefined} textFormats - how non-JSON text should be split when converting to arrays or objects, by type name
+ */
+export interface JSONSchemaEnforcerContext extends KeywordEnforcerContext {
+  subschemaFactory?: ConversionFactory<
+  FlagOrObject,
+  SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>,
+  JSONSchemaEnforcerContext
+  >
+  registry?: JSONSchemaRegistry
+  rootSchema?: FlagOrObject
+  baseURI?: string
+  dialect?: JSONSchemaDialect
+  coercionPolicy?: CoercionPolicy
+  parsingProfile?: ScalarParsingProfile
+  textFormats?: Record<string, DelimitedTextFormat>
+}
+
 /**
  * Provides values for true and false branches.
  * @interface
@@ -194,37 +675,305 @@ export interface BooleanFork<T> {
 }
 
 /**
- * Doesn't accept any value, returning an error on validation.
+ * Generates the top level JSON schema keyword rules for a particular draft.
+ * @function
+ * @param {JSONSchemaDraftOptions} options - keyword differences for the target draft
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaKeywordRules (
+  options: JSONSchemaDraftOptions = {}
+): KeywordRule[] {
+  return excludeKeywordRules(
+    [
+      new JSONSchemaDefaultRule(),
+      ...createJSONSchemaAnnotationRules(),
+      new JSONSchemaFormatRule(),
+      new JSONSchemaTypeRule('type', createJSONSchemaTypeRules('type', undefined, options)),
+      new JSONSchemaConstRule(),
+      new JSONSchemaEnumRule(),
+      new JSONSchemaRefRule(),
+      ...createJSONSchemaCompositionRules(),
+      ...createJSONSchemaUnevaluatedRules()
+    ],
+    options.excludedKeywords
+  )
+}
+
+/**
+ * Swaps in replacement rules by keyword, including those nested within type rules.
+ * Replacements that don't match an existing keyword are added to the end of the top level rules.
+ * @function
+ * @param {KeywordRule[]} rules - rules to be copied
+ * @param {KeywordRule[]} replacements - rules to be swapped in
+ * @param {string[]} excludedKeywords - keywords whose rules should be removed
+ * @returns {KeywordRule[]}
+ */
+export function replaceKeywordRules (
+  rules: KeywordRule[],
+  replacements: KeywordRule[],
+  excludedKeywords: string[] = []
+): KeywordRule[] {
+  const replacedKeywords: string[] = []
+  const replace = (source: KeywordRule[]): KeywordRule[] => excludeKeywordRules(source, excludedKeywords)
+    .map((rule) => {
+      const replacement = replacements.find((item) => item.keyword === rule.keyword)
+      if (replacement != null) {
+        replacedKeywords.push(rule.keyword)
+        return replacement
+      }
+      if (rule instanceof JSONSchemaTypeRule) {
+        const typeRules: Record<string, TypeKeywordRule> = {}
+        for (const key in rule.typeRules) {
+          const typeRule = rule.typeRules[key]
+          typeRules[key] = new TypeKeywordRule(
+            typeRule.keyword,
+            typeRule.typeEnforcer,
+            typeRule.typedKeywords != null
+              ? new SequentialKeywordEnforcerFactory(replace(typeRule.typedKeywords.rules))
+              : undefined
+          )
+        }
+        const typeRuleCopy = new JSONSchemaTypeRule(rule.keyword, typeRules)
+        typeRuleCopy.defaultKeyword = rule.defaultKeyword
+        typeRuleCopy.implicitTypes = rule.implicitTypes
+        return typeRuleCopy
+      }
+      return rule
+    })
+  const results = replace(rules)
+  for (const replacement of replacements) {
+    if (!replacedKeywords.includes(replacement.keyword)) {
+      results.push(replacement)
+    }
+  }
+  return results
+}
+
+/**
+ * Identifies the standard JSON schema drafts by their meta-schema URIs.
+ * @constant
+ */
+export const JSON_SCHEMA_DRAFT_URIS = {
+  draft04: 'http://json-schema.org/draft-04/schema',
+  draft06: 'http://json-schema.org/draft-06/schema',
+  draft07: 'http://json-schema.org/draft-07/schema',
+  draft2019: 'https://json-schema.org/draft/2019-09/schema',
+  draft2020: 'https://json-schema.org/draft/2020-12/schema'
+}
+
+/**
+ * Provides the keyword rules for a particular version of JSON schema.
+ * @class
+ * @param {string} uri - meta-schema URI that identifies the dialect through the $schema keyword
+ * @param {KeywordRule[]} rules - top level keyword rules
+ * @param {string} idKeyword - schema property for resource ids
+ */
+export class JSONSchemaDialect {
+  uri: string
+  keywordHandler: SequentialKeywordEnforcerFactory
+  idKeyword: string
+
+  constructor (
+    uri: string,
+    rules: KeywordRule[] = createJSONSchemaKeywordRules(),
+    idKeyword = '$id'
+  ) {
+    this.uri = uri
+    this.keywordHandler = new SequentialKeywordEnforcerFactory(rules)
+    this.idKeyword = idKeyword
+  }
+
+  /**
+   * Creates a new dialect based on this one.
+   * @function
+   * @param {string} uri - meta-schema URI of the new dialect
+   * @param {KeywordRule[]} rules - rules to be added, replacing any existing rules for the same keyword
+   * @param {string[]} excludedKeywords - keywords the new dialect doesn't support
+   * @returns {JSONSchemaDialect}
+   */
+  extend (
+    uri: string,
+    rules: KeywordRule[] = [],
+    excludedKeywords: string[] = []
+  ): JSONSchemaDialect {
+    return new JSONSchemaDialect(
+      uri,
+      replaceKeywordRules(this.keywordHandler.rules, rules, excludedKeywords),
+      this.idKeyword
+    )
+  }
+}
+
+/**
+ * Generates dialects for the standard JSON schema drafts, mapped by URI.
+ * @function
+ * @returns {Record<string, JSONSchemaDialect>}
+ */
+export function createJSONSchemaDialects (): Record<string, JSONSchemaDialect> {
+  const draft07Exclusions = [
+    'unevaluatedProperties',
+    'unevaluatedItems',
+    'deprecated',
+    'minContains',
+    'maxContains',
+    'dependentRequired'
+  ]
+  const draft06Exclusions = [...draft07Exclusions, 'if', 'readOnly', 'writeOnly']
+  const draft04Exclusions = [...draft06Exclusions, 'const', 'contains', 'propertyNames', 'examples']
+  const dialects = [
+    new JSONSchemaDialect(
+      JSON_SCHEMA_DRAFT_URIS.draft04,
+      createJSONSchemaKeywordRules({
+        exclusiveFlags: true,
+        tupleItems: true,
+        combinedDependencies: true,
+        excludedKeywords: draft04Exclusions
+      }),
+      'id'
+    ),
+    new JSONSchemaDialect(
+      JSON_SCHEMA_DRAFT_URIS.draft06,
+      createJSONSchemaKeywordRules({
+        tupleItems: true,
+        combinedDependencies: true,
+        excludedKeywords: draft06Exclusions
+      })
+    ),
+    new JSONSchemaDialect(
+      JSON_SCHEMA_DRAFT_URIS.draft07,
+      createJSONSchemaKeywordRules({
+        tupleItems: true,
+        combinedDependencies: true,
+        excludedKeywords: draft07Exclusions
+      })
+    ),
+    new JSONSchemaDialect(
+      JSON_SCHEMA_DRAFT_URIS.draft2019,
+      createJSONSchemaKeywordRules({ tupleItems: true })
+    ),
+    new JSONSchemaDialect(JSON_SCHEMA_DRAFT_URIS.draft2020)
+  ]
+  const results: Record<string, JSONSchemaDialect> = {}
+  for (const dialect of dialects) {
+    results[dialect.uri] = dialect
+  }
+  return results
+}
+
+/**
+ * Produces enforcers for JSON schemas, passing itself on as the subschema factory for nested schemas.
+ * The dialect is picked by the schema's $schema value, falling back on the parent schema's dialect or the fallback dialect.
  * @class
- * @implements ConversionFactory<FlagOrObject, SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>, KeywordEnforcerContext>
+ * @implements ConversionFactory<FlagOrObject, SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>, JSONSchemaEnforcerContext>
  * @param {BooleanFork<SchemaEnforcer<boolean, ErrorLog<Partial<KeywordError>>>>} booleanEnforcers - provides enforcers for a true or false schema
- * @param {SequentialKeywordEnforcerFactory} keywordHandler - produces enforcers using json schema keyword rules
+ * @param {JSONSchemaRegistry} registry - resolves references to other schemas
+ * @param {Record<string, JSONSchemaDialect>} dialects - supported dialects by URI
+ * @param {JSONSchemaDialect} fallbackDialect - dialect used when no other dialect is specified
+ * @param {boolean} allErrors - have top level enforcers validate in all errors mode
+ * @param {CoercionPolicy | undefined} coercionPolicy - conversions coercion is allowed to make, defaulting to those of each type's enforcer
+ * @param {ScalarParsingProfile | undefined} parsingProfile - how text should be read when converting to scalar types
+ * @param {Record<string, DelimitedTextFormat> | undefined} textFormats - how non-JSON text should be split when converting to arrays or objects, by type name
  */
 export class JSONSchemaEnforcerFactory
 implements ConversionFactory<
 FlagOrObject,
 SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>,
-KeywordEnforcerContext
+JSONSchemaEnforcerContext
 > {
   booleanEnforcers: BooleanFork<SchemaEnforcer<boolean, ErrorLog<Partial<KeywordError>>>> = {
     true: new JSONSchemaAnyValueEnforcer(),
     false: new JSONSchemaNoValueEnforcer()
   }
 
-  keywordHandler = new SequentialKeywordEnforcerFactory(
-    [
-      new JSONSchemaTypeRule(),
-      new JSONSchemaConstRule()
-    ]
-  )
+  registry: JSONSchemaRegistry
+  dialects: Record<string, JSONSchemaDialect>
+  fallbackDialect: JSONSchemaDialect
+  dialectKeyword = '$schema'
+  allErrors = false
+  coercionPolicy?: CoercionPolicy
+  parsingProfile?: ScalarParsingProfile
+  textFormats?: Record<string, DelimitedTextFormat>
+
+  constructor (
+    registry = new JSONSchemaRegistry(),
+    dialects = createJSONSchemaDialects(),
+    fallbackDialect = dialects[JSON_SCHEMA_DRAFT_URIS.draft2020] ??
+      new JSONSchemaDialect(JSON_SCHEMA_DRAFT_URIS.draft2020)
+  ) {
+    this.registry = registry
+    this.dialects = dialects
+    this.fallbackDialect = fallbackDialect
+  }
+
+  /**
+   * Produces enforcers using the fallback dialect's keyword rules.
+   * @type {SequentialKeywordEnforcerFactory}
+   */
+  get keywordHandler (): SequentialKeywordEnforcerFactory {
+    return this.fallbackDialect.keywordHandler
+  }
+
+  set keywordHandler (value: SequentialKeywordEnforcerFactory) {
+    this.fallbackDialect.keywordHandler = value
+  }
+
+  /**
+   * Adds a dialect to the supported dialects.
+   * @function
+   * @param {JSONSchemaDialect} dialect - dialect to be added
+   */
+  addDialect (dialect: JSONSchemaDialect): void {
+    this.dialects[splitURIFragment(dialect.uri)[0]] = dialect
+  }
+
+  /**
+   * Finds the dialect that should be used for a particular schema.
+   * @function
+   * @param {UntypedObject} schema - schema to be evaluated
+   * @param {JSONSchemaEnforcerContext} context - provides the parent schema's dialect
+   * @returns {JSONSchemaDialect}
+   */
+  getDialectFor (
+    schema: UntypedObject,
+    context: JSONSchemaEnforcerContext = { enforcers: {} }
+  ): JSONSchemaDialect {
+    const uri = schema[this.dialectKeyword]
+    if (typeof uri === 'string') {
+      const dialect = this.dialects[splitURIFragment(uri)[0]]
+      if (dialect != null) return dialect
+    }
+    return context.dialect ?? this.fallbackDialect
+  }
 
   process (
     schema: FlagOrObject,
-    context: KeywordEnforcerContext<FlagOrObject> = { enforcers: {} }
+    context: JSONSchemaEnforcerContext = { enforcers: {} }
   ): KeywordRulesEnforcer | SchemaEnforcer<boolean, ErrorLog<Partial<KeywordError>>> {
     if (typeof schema === 'boolean') {
       return schema ? this.booleanEnforcers.true : this.booleanEnforcers.false
     }
-    return this.keywordHandler.process(schema, context)
+    const registry = context.registry ?? this.registry
+    const dialect = this.getDialectFor(schema, context)
+    const subcontext: JSONSchemaEnforcerContext = {
+      ...context,
+      subschemaFactory: context.subschemaFactory ?? this,
+      registry,
+      dialect,
+      coercionPolicy: context.coercionPolicy ?? this.coercionPolicy,
+      parsingProfile: context.parsingProfile ?? this.parsingProfile,
+      textFormats: context.textFormats ?? this.textFormats
+    }
+    if (context.rootSchema == null || dialect.idKeyword in schema) {
+      subcontext.rootSchema = schema
+      subcontext.baseURI = registry.getBaseURI(schema, context.baseURI, dialect.idKeyword)
+    }
+    const enforcer = dialect.keywordHandler.process(schema, subcontext)
+    if (this.allErrors && context.subschemaFactory == null) {
+      return {
+        ...enforcer,
+        validate: (value: any) => collectAllErrors(() => enforcer.validate(value))
+      }
+    }
+    return enforcer
   }
 }
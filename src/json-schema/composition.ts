@@ -0,0 +1,506 @@
+import {
+  type UntypedObject,
+  type ValueConstraint,
+  echoValue,
+  mergeCoerceSteps
+} from '../generic/coercion'
+import { type ErrorLog, mergeValidateSteps } from '../generic/validation'
+import {
+  type KeywordAnnotation,
+  type KeywordEnforcerContext,
+  type KeywordError,
+  type KeywordRule,
+  KeywordEnforcerFork,
+  KeywordErrorLogValidationParser,
+  countKeywordFailures,
+  nestKeywordAnnotations,
+  nestKeywordErrors
+} from '../generic/keywords'
+import type { FlagOrObject, JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Wraps a subschema enforcer so it's errors and annotations point back to the branch that produced them.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @param {string} keyword - keyword containing the branch
+ * @param {number | undefined} index - position of the branch within the keyword's list, if any
+ * @param {FlagOrObject} value - subschema for the branch
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} enforcer - enforcer for the subschema
+ * @param {number} priority - relative importance of errors without a priority of their own
+ */
+export class JSONSchemaBranchEnforcer implements ValueConstraint<any, ErrorLog<KeywordError>> {
+  keyword: string
+  index?: number
+  value: FlagOrObject
+  enforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  priority: number
+  coerce?: (value: any) => any
+
+  constructor (
+    keyword: string,
+    index: number | undefined,
+    value: FlagOrObject,
+    enforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    priority = 50
+  ) {
+    this.keyword = keyword
+    this.index = index
+    this.value = value
+    this.enforcer = enforcer
+    this.priority = priority
+    const coerce = enforcer.coerce
+    if (coerce != null) {
+      this.coerce = (value: any) => coerce.call(enforcer, value)
+    }
+  }
+
+  /**
+   * Gets the location of this branch within the containing schema.
+   * @function
+   * @returns {Array<string | number>}
+   */
+  getSchemaPath (): Array<string | number> {
+    return this.index != null ? [this.keyword, this.index] : [this.keyword]
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    const validation = this.enforcer.validate(target)
+    const result: ErrorLog<KeywordError, KeywordAnnotation> = {
+      errors: nestKeywordErrors(
+        validation.errors,
+        undefined,
+        {
+          keyword: this.keyword,
+          value: this.value,
+          target,
+          priority: this.priority,
+          coerce: this.coerce
+        },
+        this.getSchemaPath()
+      )
+    }
+    if (validation.annotations != null) {
+      result.annotations = nestKeywordAnnotations(validation.annotations, undefined, this.getSchemaPath())
+    }
+    return result
+  }
+}
+
+/**
+ * Creates branch enforcers for each subschema in a list.
+ * @function
+ * @param {string} keyword - keyword containing the branches
+ * @param {any[]} subschemas - subschemas to be converted
+ * @param {JSONSchemaEnforcerContext} context - provides the subschema factory
+ * @returns {JSONSchemaBranchEnforcer[]}
+ */
+export function createJSONSchemaBranchEnforcers (
+  keyword: string,
+  subschemas: any[],
+  context: JSONSchemaEnforcerContext
+): JSONSchemaBranchEnforcer[] {
+  const factory = context.subschemaFactory
+  if (factory == null) return []
+  return subschemas.map(
+    (subschema, index) => new JSONSchemaBranchEnforcer(
+      keyword,
+      index,
+      subschema,
+      factory.process(subschema, context)
+    )
+  )
+}
+
+/**
+ * Requires values to pass all listed subschemas, chaining their coercion.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {JSONSchemaBranchEnforcer[]} branches - enforcers for each subschema
+ */
+export class JSONSchemaAllOfEnforcer
+implements ValueConstraint<any, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  branches: JSONSchemaBranchEnforcer[]
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  validate: (value: any) => ErrorLog<KeywordError>
+  coerce: (value: any) => any
+
+  constructor (
+    branches: JSONSchemaBranchEnforcer[]
+  ) {
+    this.branches = branches
+    for (let i = 0; i < branches.length; i++) {
+      this.enforcers[String(i)] = branches[i]
+    }
+    this.validate = mergeValidateSteps(
+      branches.map((branch) => (value: any) => branch.validate(value)),
+      new KeywordErrorLogValidationParser<KeywordError>()
+    )
+    const coerceSteps: Array<(value: any) => any> = []
+    for (const branch of branches) {
+      if (branch.coerce != null) {
+        coerceSteps.push(branch.coerce)
+      }
+    }
+    this.coerce = mergeCoerceSteps(coerceSteps)
+  }
+}
+
+/**
+ * Handles the JSON schema allOf keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaAllOfRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'allOf'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (Array.isArray(value) && context?.subschemaFactory != null) {
+      return new JSONSchemaAllOfEnforcer(
+        createJSONSchemaBranchEnforcers(this.keyword, value, context)
+      )
+    }
+  }
+}
+
+/**
+ * Requires values to pass at least one of the provided branches.
+ * Annotations from every passing branch are kept, as later keywords may depend on all of them.
+ * @class
+ * @extends KeywordEnforcerFork
+ * @param {JSONSchemaBranchEnforcer[]} branches - enforcers for each subschema
+ */
+export class JSONSchemaAnyOfEnforcer extends KeywordEnforcerFork {
+  validationParser = new KeywordErrorLogValidationParser<KeywordError>()
+
+  constructor (
+    branches: JSONSchemaBranchEnforcer[]
+  ) {
+    super(branches, echoValue)
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    let result: ErrorLog<KeywordError> | undefined
+    for (const branch of this.branches) {
+      const validation = branch.validate(target)
+      if (countKeywordFailures(validation) < 1) {
+        result = result != null
+          ? this.validationParser.merge(result, validation)
+          : validation
+      }
+    }
+    return result ?? super.validate(target)
+  }
+}
+
+/**
+ * Handles the JSON schema anyOf keyword.
+ * Invalid values are coerced using the branch with the least severe errors.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaAnyOfRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'anyOf'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (Array.isArray(value) && context?.subschemaFactory != null) {
+      return new JSONSchemaAnyOfEnforcer(
+        createJSONSchemaBranchEnforcers(this.keyword, value, context)
+      )
+    }
+  }
+}
+
+/**
+ * Requires values to match exactly one of the provided branches.
+ * @class
+ * @extends KeywordEnforcerFork
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {JSONSchemaBranchEnforcer[]} branches - enforcers for each subschema
+ */
+export class JSONSchemaOneOfEnforcer extends KeywordEnforcerFork {
+  keyword: string
+  value: any
+  priority = 50
+
+  constructor (
+    keyword: string,
+    value: any,
+    branches: JSONSchemaBranchEnforcer[]
+  ) {
+    super(branches, echoValue)
+    this.keyword = keyword
+    this.value = value
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    const matches: number[] = []
+    let match: ErrorLog<KeywordError> | undefined
+    for (let i = 0; i < this.branches.length; i++) {
+      const validation = this.branches[i].validate(target)
+      if (countKeywordFailures(validation) < 1) {
+        matches.push(i)
+        match = validation
+      }
+    }
+    if (matches.length < 1) {
+      return super.validate(target)
+    }
+    if (matches.length > 1) {
+      return {
+        errors: [
+          {
+            keyword: this.keyword,
+            value: this.value,
+            target,
+            priority: this.priority,
+            instancePath: [],
+            schemaPath: [this.keyword, matches[1]]
+          }
+        ]
+      }
+    }
+    return match ?? { errors: [] }
+  }
+}
+
+/**
+ * Handles the JSON schema oneOf keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaOneOfRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'oneOf'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (Array.isArray(value) && context?.subschemaFactory != null) {
+      return new JSONSchemaOneOfEnforcer(
+        this.keyword,
+        value,
+        createJSONSchemaBranchEnforcers(this.keyword, value, context)
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema not keyword.
+ * Values that match the subschema can't be repaired automatically, so the resulting errors have no coerce callback.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaNotRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'not'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && factory != null) {
+      const enforcer = factory.process(value, context)
+      const result: ValueConstraint<any, ErrorLog<KeywordError>> & KeywordEnforcerContext = {
+        enforcers: { [this.keyword]: enforcer },
+        validate: (target: any) => countKeywordFailures(enforcer.validate(target)) > 0
+          ? { errors: [] }
+          : {
+              errors: [
+                {
+                  keyword: this.keyword,
+                  value,
+                  target,
+                  priority: 50,
+                  instancePath: [],
+                  schemaPath: [this.keyword]
+                }
+              ]
+            }
+      }
+      return result
+    }
+  }
+}
+
+/**
+ * Applies one of two branches depending on whether a value matches the condition subschema.
+ * The condition itself never produces errors, though annotations from a matched condition are kept.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} condition - enforcer for the condition subschema
+ * @param {JSONSchemaBranchEnforcer | undefined} thenBranch - enforcer applied to matching values
+ * @param {JSONSchemaBranchEnforcer | undefined} elseBranch - enforcer applied to values that don't match
+ */
+export class JSONSchemaConditionalEnforcer
+implements ValueConstraint<any, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  condition: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  thenBranch?: JSONSchemaBranchEnforcer
+  elseBranch?: JSONSchemaBranchEnforcer
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  validationParser = new KeywordErrorLogValidationParser<KeywordError>()
+
+  constructor (
+    condition: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    thenBranch?: JSONSchemaBranchEnforcer,
+    elseBranch?: JSONSchemaBranchEnforcer
+  ) {
+    this.condition = condition
+    this.thenBranch = thenBranch
+    this.elseBranch = elseBranch
+    this.enforcers.if = condition
+    if (thenBranch != null) {
+      this.enforcers[thenBranch.keyword] = thenBranch
+    }
+    if (elseBranch != null) {
+      this.enforcers[elseBranch.keyword] = elseBranch
+    }
+  }
+
+  /**
+   * Checks if the value matches the condition subschema.
+   * @function
+   * @param {any} target - value to be evaluated
+   * @returns {boolean}
+   */
+  matches (target: any): boolean {
+    return countKeywordFailures(this.condition.validate(target)) < 1
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    const conditionCheck = this.condition.validate(target)
+    if (countKeywordFailures(conditionCheck) < 1) {
+      const conditionResult = {
+        errors: [],
+        annotations: nestKeywordAnnotations(conditionCheck.annotations, undefined, ['if'])
+      }
+      return this.thenBranch != null
+        ? this.validationParser.merge(conditionResult, this.thenBranch.validate(target))
+        : conditionResult
+    }
+    return this.elseBranch != null ? this.elseBranch.validate(target) : { errors: [] }
+  }
+
+  /**
+   * Coerces the value using the branch selected by the condition.
+   * Matching values are coerced against the condition's constraints first, so they keep matching it.
+   * @function
+   * @param {any} target - value to be coerced
+   * @returns {any}
+   */
+  coerce (target: any): any {
+    if (this.matches(target)) {
+      const conditioned = this.condition.coerce != null
+        ? this.condition.coerce(target)
+        : target
+      return this.thenBranch?.coerce != null
+        ? this.thenBranch.coerce(conditioned)
+        : conditioned
+    }
+    return this.elseBranch?.coerce != null
+      ? this.elseBranch.coerce(target)
+      : target
+  }
+}
+
+/**
+ * Handles the JSON schema if, then, and else keywords.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} thenKeyword - schema property for the matching branch
+ * @param {string} elseKeyword - schema property for the non-matching branch
+ */
+export class JSONSchemaConditionalRule implements KeywordRule {
+  keyword: string
+  thenKeyword: string
+  elseKeyword: string
+
+  constructor (
+    keyword = 'if',
+    thenKeyword = 'then',
+    elseKeyword = 'else'
+  ) {
+    this.keyword = keyword
+    this.thenKeyword = thenKeyword
+    this.elseKeyword = elseKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && factory != null) {
+      const thenValue = schema[this.thenKeyword]
+      const elseValue = schema[this.elseKeyword]
+      if (thenValue === undefined && elseValue === undefined) return
+      return new JSONSchemaConditionalEnforcer(
+        factory.process(value, context),
+        thenValue !== undefined
+          ? new JSONSchemaBranchEnforcer(this.thenKeyword, undefined, thenValue, factory.process(thenValue, context))
+          : undefined,
+        elseValue !== undefined
+          ? new JSONSchemaBranchEnforcer(this.elseKeyword, undefined, elseValue, factory.process(elseValue, context))
+          : undefined
+      )
+    }
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema composition keyword rules.
+ * @function
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaCompositionRules (): KeywordRule[] {
+  return [
+    new JSONSchemaAllOfRule(),
+    new JSONSchemaAnyOfRule(),
+    new JSONSchemaOneOfRule(),
+    new JSONSchemaNotRule(),
+    new JSONSchemaConditionalRule()
+  ]
+}
@@ -0,0 +1,283 @@
+import type { UntypedObject, ValueConstraint } from '../generic/coercion'
+import type { Convert, ErrorLog } from '../generic/validation'
+import {
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+import { createSchemaRegExp } from './strings'
+
+/**
+ * Provides validation and optional normalization for a JSON schema string format.
+ * @interface
+ * @property {Convert<string, boolean>} validate - checks if a string matches the format
+ * @property {Convert<any, string | undefined> | undefined} normalize - tries to convert a value to a string matching the format
+ */
+export interface JSONSchemaFormat {
+  validate: Convert<string, boolean>
+  normalize?: Convert<any, string | undefined>
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const TIME_PATTERN = /^(\d{2}):(\d{2}):(\d{2})(\.\d+)?(z|[+-](\d{2}):(\d{2}))$/i
+const DURATION_PATTERN = /^P(?:\d+W|(?=\d|T\d)(?:\d+Y)?(?:\d+M)?(?:\d+D)?(?:T(?=\d)(?:\d+H)?(?:\d+M)?(?:\d+(?:[.,]\d+)?S)?)?)$/
+const EMAIL_LOCAL_PATTERN = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i
+const HOSTNAME_LABEL_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/i
+const IPV4_PATTERN = /^(?:(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)\.){3}(?:25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)$/
+const IPV6_GROUP_PATTERN = /^[0-9a-f]{1,4}$/i
+const URI_PATTERN = /^[a-z][a-z0-9+.-]*:[^\s<>"{}|\\^`]*$/i
+const URI_REFERENCE_PATTERN = /^[^\s<>"{}|\\^`]*$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const JSON_POINTER_PATTERN = /^(?:\/(?:[^~/]|~[01])*)*$/
+
+/**
+ * Checks if a string is a valid RFC 3339 full-date.
+ * @function
+ * @param {string} value - string to be evaluated
+ * @returns {boolean}
+ */
+export function isDateString (value: string): boolean {
+  const match = DATE_PATTERN.exec(value)
+  if (match == null) return false
+  const year = Number(match[1])
+  const month = Number(match[2])
+  const day = Number(match[3])
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day
+}
+
+/**
+ * Checks if a string is a valid RFC 3339 full-time.
+ * @function
+ * @param {string} value - string to be evaluated
+ * @returns {boolean}
+ */
+export function isTimeString (value: string): boolean {
+  const match = TIME_PATTERN.exec(value)
+  if (match == null) return false
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  const seconds = Number(match[3])
+  if (hours > 23 || minutes > 59 || seconds > 60) return false
+  if (match[6] != null) {
+    return Number(match[6]) <= 23 && Number(match[7]) <= 59
+  }
+  return true
+}
+
+/**
+ * Checks if a string is a valid hostname.
+ * @function
+ * @param {string} value - string to be evaluated
+ * @returns {boolean}
+ */
+export function isHostnameString (value: string): boolean {
+  if (value.length < 1 || value.length > 253) return false
+  const labels = value.split('.')
+  for (const label of labels) {
+    if (!HOSTNAME_LABEL_PATTERN.test(label)) return false
+  }
+  return true
+}
+
+/**
+ * Checks if a string is a valid IPv6 address.
+ * @function
+ * @param {string} value - string to be evaluated
+ * @returns {boolean}
+ */
+export function isIPv6String (value: string): boolean {
+  const halves = value.split('::')
+  if (halves.length > 2) return false
+  let groupCount = 0
+  for (let i = 0; i < halves.length; i++) {
+    if (halves[i] === '') continue
+    const groups = halves[i].split(':')
+    for (let j = 0; j < groups.length; j++) {
+      const group = groups[j]
+      const isLast = i === halves.length - 1 && j === groups.length - 1
+      if (isLast && IPV4_PATTERN.test(group)) {
+        groupCount += 2
+      } else if (IPV6_GROUP_PATTERN.test(group)) {
+        groupCount++
+      } else {
+        return false
+      }
+    }
+  }
+  return halves.length > 1 ? groupCount < 8 : groupCount === 8
+}
+
+/**
+ * Tries to convert a value to a date object.
+ * @function
+ * @param {any} value - date, epoch number, or date string
+ * @returns {Date | undefined}
+ */
+export function parseDateValue (value: any): Date | undefined {
+  let date: Date | undefined
+  if (value instanceof Date) {
+    date = value
+  } else if (typeof value === 'number' || typeof value === 'string') {
+    date = new Date(value)
+  }
+  if (date != null && !isNaN(date.getTime())) {
+    return date
+  }
+}
+
+/**
+ * Trims whitespace off string values.
+ * @function
+ * @param {any} value - value to be converted
+ * @returns {string | undefined}
+ */
+function trimString (value: any): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim()
+  }
+}
+
+/**
+ * Trims and lowercases string values.
+ * @function
+ * @param {any} value - value to be converted
+ * @returns {string | undefined}
+ */
+function trimLowerCaseString (value: any): string | undefined {
+  if (typeof value === 'string') {
+    return value.trim().toLowerCase()
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema string formats.
+ * @function
+ * @returns {Record<string, JSONSchemaFormat>}
+ */
+export function createJSONSchemaFormats (): Record<string, JSONSchemaFormat> {
+  return {
+    date: {
+      validate: isDateString,
+      normalize: (value: any) => parseDateValue(value)?.toISOString().slice(0, 10)
+    },
+    time: {
+      validate: isTimeString,
+      normalize: (value: any) => typeof value === 'string'
+        ? undefined
+        : parseDateValue(value)?.toISOString().slice(11)
+    },
+    'date-time': {
+      validate: (value: string) => {
+        const parts = value.split(/t/i)
+        return parts.length === 2 && isDateString(parts[0]) && isTimeString(parts[1])
+      },
+      normalize: (value: any) => parseDateValue(value)?.toISOString()
+    },
+    duration: {
+      validate: (value: string) => DURATION_PATTERN.test(value),
+      normalize: trimString
+    },
+    email: {
+      validate: (value: string) => {
+        const index = value.lastIndexOf('@')
+        return index > 0 &&
+          EMAIL_LOCAL_PATTERN.test(value.slice(0, index)) &&
+          isHostnameString(value.slice(index + 1))
+      },
+      normalize: trimString
+    },
+    hostname: {
+      validate: isHostnameString,
+      normalize: trimLowerCaseString
+    },
+    ipv4: {
+      validate: (value: string) => IPV4_PATTERN.test(value),
+      normalize: trimString
+    },
+    ipv6: {
+      validate: isIPv6String,
+      normalize: trimLowerCaseString
+    },
+    uri: {
+      validate: (value: string) => URI_PATTERN.test(value),
+      normalize: trimString
+    },
+    'uri-reference': {
+      validate: (value: string) => URI_REFERENCE_PATTERN.test(value),
+      normalize: trimString
+    },
+    uuid: {
+      validate: (value: string) => UUID_PATTERN.test(value),
+      normalize: trimLowerCaseString
+    },
+    regex: {
+      validate: (value: string) => createSchemaRegExp(value) != null
+    },
+    'json-pointer': {
+      validate: (value: string) => JSON_POINTER_PATTERN.test(value)
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema format keyword.
+ * Only strings are checked against the format, so only failing strings are normalized.
+ * Other values are only normalized into matching strings when the sibling type keyword would reject them but accept the result.
+ * Normalization is skipped when the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {Record<string, JSONSchemaFormat>} formats - map of supported formats by name
+ * @param {boolean} assertion - if false, failures are reported at negative priority instead of failing validation
+ */
+export class JSONSchemaFormatRule implements KeywordRule {
+  keyword: string
+  formats: Record<string, JSONSchemaFormat>
+  assertion: boolean
+  annotationPriority = -1
+  typeKeyword = 'type'
+
+  constructor (
+    keyword = 'format',
+    formats: Record<string, JSONSchemaFormat> = createJSONSchemaFormats(),
+    assertion = true
+  ) {
+    this.keyword = keyword
+    this.formats = formats
+    this.assertion = assertion
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const formatName = schema[this.keyword]
+    if (typeof formatName === 'string' && Object.prototype.hasOwnProperty.call(this.formats, formatName)) {
+      const format = this.formats[formatName]
+      const check = (target: any): boolean => typeof target !== 'string' || format.validate(target)
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      const enforcers = context?.enforcers
+      const passesType = (value: any): boolean => {
+        const typeEnforcer = enforcers?.[this.typeKeyword]
+        return typeEnforcer == null ||
+          !typeEnforcer.validate(value).errors.some((error) => error.keyword === this.typeKeyword)
+      }
+      return new KeywordValueEnforcer(
+        this.keyword,
+        formatName,
+        check,
+        (target: any) => {
+          if (!allowLossy) return target
+          if (typeof target === 'string' ? check(target) : passesType(target)) return target
+          const normalized = format.normalize?.(target)
+          return normalized !== undefined && passesType(normalized) ? normalized : target
+        },
+        this.assertion ? 50 : this.annotationPriority
+      )
+    }
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  type KeywordMessageTemplates,
+  KeywordErrorMessageFormatter
+} from '../generic/messages'
+
+/**
+ * English message templates for the standard JSON schema keywords.
+ * @constant
+ */
+export const JSON_SCHEMA_ERROR_TEMPLATES: KeywordMessageTemplates = {
+  '*': 'is invalid',
+  type: 'must be of type {type}',
+  const: 'must be equal to {const}',
+  enum: 'must be one of {enum}',
+  format: 'must be a valid {format}',
+  minimum: 'must be at least {minimum}',
+  maximum: 'must be at most {maximum}',
+  exclusiveMinimum: 'must be greater than {exclusiveMinimum}',
+  exclusiveMaximum: 'must be less than {exclusiveMaximum}',
+  multipleOf: 'must be a multiple of {multipleOf}',
+  minLength: 'must be at least {minLength} characters long',
+  maxLength: 'must be at most {maxLength} characters long',
+  pattern: 'must match the pattern {pattern}',
+  items: 'is not a valid item',
+  prefixItems: 'is not a valid item',
+  additionalItems: 'is not an allowed item',
+  minItems: 'must have at least {minItems} items',
+  maxItems: 'must have at most {maxItems} items',
+  uniqueItems: 'must not contain duplicate items',
+  contains: 'must contain a matching item',
+  minContains: 'must contain at least {minContains} matching items',
+  maxContains: 'must contain at most {maxContains} matching items',
+  properties: 'is not a valid property',
+  patternProperties: 'is not a valid property',
+  additionalProperties: 'is not an allowed property',
+  required: 'is required',
+  dependentRequired: 'is required when a related property is present',
+  dependentSchemas: 'does not meet the requirements of a related property',
+  dependencies: 'does not meet the requirements of a related property',
+  propertyNames: 'is not a valid property name',
+  minProperties: 'must have at least {minProperties} properties',
+  maxProperties: 'must have at most {maxProperties} properties',
+  allOf: 'must match all of the listed schemas',
+  anyOf: 'must match at least one of the listed schemas',
+  oneOf: 'must match exactly one of the listed schemas',
+  not: 'must not match the schema',
+  then: 'does not meet the requirements of the matching condition',
+  else: 'does not meet the requirements of the failed condition',
+  $ref: 'references a missing schema: {$ref}',
+  default: 'has a default that does not fit the schema',
+  unevaluatedProperties: 'is not an allowed property',
+  unevaluatedItems: 'is not an allowed item'
+}
+
+/**
+ * Creates a message formatter with the English JSON schema templates.
+ * @function
+ * @param {string} locale - locale used when none is specified
+ * @returns {KeywordErrorMessageFormatter}
+ */
+export function createJSONSchemaMessageFormatter (
+  locale = 'en'
+): KeywordErrorMessageFormatter {
+  return new KeywordErrorMessageFormatter(
+    { en: { ...JSON_SCHEMA_ERROR_TEMPLATES } },
+    locale
+  )
+}
@@ -0,0 +1,192 @@
+import type { UntypedObject, ValueConstraint } from '../generic/coercion'
+import { type ErrorLog } from '../generic/validation'
+import {
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Checks if a number is a multiple of the provided step, allowing for floating point imprecision.
+ * @function
+ * @param {number} value - value to be evaluated
+ * @param {number} step - target multiplier
+ * @param {number} precision - maximum allowed distance from a whole multiple
+ * @returns {boolean}
+ */
+export function isMultipleOf (
+  value: number,
+  step: number,
+  precision = 1e-9
+): boolean {
+  if (step <= 0) return true
+  const quotient = value / step
+  return Math.abs(quotient - Math.round(quotient)) <= precision
+}
+
+/**
+ * Gets the closest value to a numeric limit that's within that limit and lands on the provided step.
+ * @function
+ * @param {number} limit - boundary value
+ * @param {number} direction - 1 if the valid range is above the limit, -1 if it's below
+ * @param {boolean} exclusive - whether the limit itself is disallowed
+ * @param {number | undefined} step - multiplier the result should adhere to
+ * @returns {number}
+ */
+export function getNearestNumberWithin (
+  limit: number,
+  direction: 1 | -1,
+  exclusive: boolean,
+  step?: number
+): number {
+  if (step != null && step > 0) {
+    let value = isMultipleOf(limit, step)
+      ? Math.round(limit / step) * step
+      : (direction > 0 ? Math.ceil(limit / step) : Math.floor(limit / step)) * step
+    if (exclusive && value * direction <= limit * direction) {
+      value += step * direction
+    }
+    return value
+  }
+  if (exclusive) {
+    const offset = Math.max(Number.EPSILON, Math.abs(limit) * Number.EPSILON)
+    return limit + offset * direction
+  }
+  return limit
+}
+
+/**
+ * Handles JSON schema keywords that set a numeric lower or upper limit.
+ * Coercion clamps values to the limit, unless the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {number} direction - 1 for lower limits, -1 for upper limits
+ * @param {boolean} exclusive - whether the limit value itself is disallowed
+ * @param {number | undefined} baseStep - step to snap to if the schema doesn't provide one
+ * @param {string} stepKeyword - schema property that provides the step
+ * @param {string | undefined} exclusiveFlagKeyword - schema property that makes the limit exclusive when true, as in draft 4
+ */
+export class JSONSchemaNumericLimitRule implements KeywordRule {
+  keyword: string
+  direction: 1 | -1
+  exclusive: boolean
+  baseStep?: number
+  stepKeyword: string
+  exclusiveFlagKeyword?: string
+
+  constructor (
+    keyword: string,
+    direction: 1 | -1,
+    exclusive = false,
+    baseStep?: number,
+    stepKeyword = 'multipleOf',
+    exclusiveFlagKeyword?: string
+  ) {
+    this.keyword = keyword
+    this.direction = direction
+    this.exclusive = exclusive
+    this.baseStep = baseStep
+    this.stepKeyword = stepKeyword
+    this.exclusiveFlagKeyword = exclusiveFlagKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      const stepValue = schema[this.stepKeyword]
+      const step = typeof stepValue === 'number' && stepValue > 0
+        ? stepValue
+        : this.baseStep
+      const exclusive = this.exclusive ||
+        (this.exclusiveFlagKeyword != null && schema[this.exclusiveFlagKeyword] === true)
+      const check = (target: number): boolean => {
+        const offset = (target - limit) * this.direction
+        return exclusive ? offset > 0 : offset >= 0
+      }
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        check,
+        (target: number) => check(target) || !allowLossy
+          ? target
+          : getNearestNumberWithin(limit, this.direction, exclusive, step),
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema multipleOf keyword.
+ * Coercion rounds to the nearest multiple, unless the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {number} precision - maximum allowed distance from a whole multiple
+ */
+export class JSONSchemaMultipleOfRule implements KeywordRule {
+  keyword: string
+  precision: number
+
+  constructor (
+    keyword = 'multipleOf',
+    precision = 1e-9
+  ) {
+    this.keyword = keyword
+    this.precision = precision
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const step = schema[this.keyword]
+    if (typeof step === 'number' && step > 0) {
+      const check = (target: number): boolean => isMultipleOf(target, step, this.precision)
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      return new KeywordValueEnforcer(
+        this.keyword,
+        step,
+        check,
+        (target: number) => check(target) || !allowLossy
+          ? target
+          : Math.round(target / step) * step,
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema numeric keyword rules.
+ * Steps are snapped to first so the limit rules can pull the result back within range.
+ * @function
+ * @param {number | undefined} baseStep - step to snap limits to if the schema doesn't provide one
+ * @param {boolean} exclusiveFlags - treat exclusiveMinimum and exclusiveMaximum as boolean modifiers, as in draft 4
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaNumericRules (
+  baseStep?: number,
+  exclusiveFlags = false
+): KeywordRule[] {
+  if (exclusiveFlags) {
+    return [
+      new JSONSchemaMultipleOfRule(),
+      new JSONSchemaNumericLimitRule('minimum', 1, false, baseStep, 'multipleOf', 'exclusiveMinimum'),
+      new JSONSchemaNumericLimitRule('maximum', -1, false, baseStep, 'multipleOf', 'exclusiveMaximum')
+    ]
+  }
+  return [
+    new JSONSchemaMultipleOfRule(),
+    new JSONSchemaNumericLimitRule('minimum', 1, false, baseStep),
+    new JSONSchemaNumericLimitRule('exclusiveMinimum', 1, true, baseStep),
+    new JSONSchemaNumericLimitRule('maximum', -1, false, baseStep),
+    new JSONSchemaNumericLimitRule('exclusiveMaximum', -1, true, baseStep)
+  ]
+}
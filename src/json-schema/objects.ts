@@ -0,0 +1,1081 @@
+import {
+  type UntypedObject,
+  type ValueConstraint,
+  coerceNested,
+  copyOwnProperties,
+  recordCoercionChange,
+  reportCoercion,
+  setOwnProperty,
+  traverseValue
+} from '../generic/coercion'
+import {
+  type Convert,
+  type ErrorLog,
+  isCollectingAllErrors
+} from '../generic/validation'
+import {
+  type KeywordAnnotation,
+  type KeywordEnforcerContext,
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer,
+  countKeywordFailures,
+  nestKeywordAnnotations,
+  nestKeywordErrors
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+import { createSchemaRegExp } from './strings'
+
+/**
+ * Pairs a property enforcer with the location of it's subschema.
+ * @interface
+ * @property {Array<string | number>} schemaPath - path to the subschema, starting with the keyword
+ * @property {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} enforcer - enforcer for the subschema
+ */
+export interface PropertySubschemaEnforcer {
+  schemaPath: Array<string | number>
+  enforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+}
+
+/**
+ * Applies subschema enforcers to the properties of an object.
+ * Named property enforcers are stored by key while the fallback enforcer is stored under the keyword.
+ * @class
+ * @implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} propertyEnforcers - enforcers by property name
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined} additionalEnforcer - enforcer for properties not otherwise covered
+ * @param {Convert<string, boolean>} isCovered - checks if a property is handled elsewhere and should be skipped by the additional enforcer
+ * @param {boolean} removeInvalid - whether coercion should drop invalid properties that can't be coerced
+ * @param {string[]} defaultKeys - properties coercion should fill in when missing, as their subschemas provide a default
+ */
+export class JSONSchemaPropertiesEnforcer
+implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  keyword: string
+  value: any
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  propertyEnforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>
+  additionalEnforcer?: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  isCovered: Convert<string, boolean>
+  removeInvalid: boolean
+  defaultKeys: string[]
+  priority = 50
+
+  constructor (
+    keyword: string,
+    value: any,
+    propertyEnforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>,
+    additionalEnforcer?: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    isCovered: Convert<string, boolean> = () => false,
+    removeInvalid = true,
+    defaultKeys: string[] = []
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.propertyEnforcers = propertyEnforcers
+    this.additionalEnforcer = additionalEnforcer
+    this.isCovered = isCovered
+    this.removeInvalid = removeInvalid
+    this.defaultKeys = defaultKeys
+    for (const key in propertyEnforcers) {
+      this.enforcers[key] = propertyEnforcers[key]
+    }
+    if (additionalEnforcer != null) {
+      this.enforcers[keyword] = additionalEnforcer
+    }
+  }
+
+  /**
+   * Gets the enforcer that applies to a particular property.
+   * @function
+   * @param {string} key - name of the target property
+   * @returns {ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined}
+   */
+  getEnforcerFor (
+    key: string
+  ): ValueConstraint<any, ErrorLog<Partial<KeywordError>>> | undefined {
+    if (Object.prototype.hasOwnProperty.call(this.propertyEnforcers, key)) {
+      return this.propertyEnforcers[key]
+    }
+    if (!this.isCovered(key)) {
+      return this.additionalEnforcer
+    }
+  }
+
+  /**
+   * Gets all enforcers that apply to a particular property.
+   * @function
+   * @param {string} key - name of the target property
+   * @returns {Array<ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>}
+   */
+  getEnforcersFor (
+    key: string
+  ): Array<ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> {
+    return this.getSubschemaEnforcersFor(key).map((item) => item.enforcer)
+  }
+
+  /**
+   * Gets all enforcers that apply to a particular property, along with the location of each enforcer's subschema.
+   * Locations come from the property name rather than the enforcer, as cached enforcers can be shared by several properties.
+   * @function
+   * @param {string} key - name of the target property
+   * @returns {PropertySubschemaEnforcer[]}
+   */
+  getSubschemaEnforcersFor (
+    key: string
+  ): PropertySubschemaEnforcer[] {
+    if (Object.prototype.hasOwnProperty.call(this.propertyEnforcers, key)) {
+      return [{ schemaPath: [this.keyword, key], enforcer: this.propertyEnforcers[key] }]
+    }
+    if (this.additionalEnforcer != null && !this.isCovered(key)) {
+      return [{ schemaPath: [this.keyword], enforcer: this.additionalEnforcer }]
+    }
+    return []
+  }
+
+  validate (target: UntypedObject): ErrorLog<KeywordError, KeywordAnnotation> {
+    return traverseValue(target, () => {
+      const evaluatedKeys: string[] = []
+      let annotations: KeywordAnnotation[] = []
+      let errors: KeywordError[] = []
+      for (const key of Object.keys(target)) {
+        const enforcers = this.getSubschemaEnforcersFor(key)
+        if (enforcers.length > 0) {
+          evaluatedKeys.push(key)
+        }
+        for (const { schemaPath, enforcer } of enforcers) {
+          const validation = enforcer.validate(target[key])
+          annotations = annotations.concat(nestKeywordAnnotations(validation.annotations, key, schemaPath))
+          if (validation.errors.length > 0) {
+            errors = errors.concat(
+              nestKeywordErrors(
+                validation.errors,
+                key,
+                {
+                  keyword: this.keyword,
+                  value: this.value,
+                  target: target[key],
+                  priority: this.priority,
+                  coerce: (value: UntypedObject) => this.coerce(value)
+                },
+                schemaPath
+              )
+            )
+            if (!isCollectingAllErrors() && countKeywordFailures(validation) > 0) {
+              return { errors }
+            }
+          }
+        }
+      }
+      if (countKeywordFailures({ errors }) > 0) {
+        return { errors }
+      }
+      annotations.unshift({
+        keyword: this.keyword,
+        value: evaluatedKeys,
+        schemaPath: [this.keyword]
+      })
+      return { errors, annotations }
+    })
+  }
+
+  /**
+   * Coerces each property with it's enforcers, filling in missing properties that have a valid default.
+   * @function
+   * @param {UntypedObject} target - object to be coerced
+   * @returns {UntypedObject}
+   */
+  coerce (target: UntypedObject): UntypedObject {
+    return traverseValue(target, () => {
+      const results: UntypedObject = {}
+      for (const key of Object.keys(target)) {
+        let propertyValue = target[key]
+        let removed = false
+        for (const enforcer of this.getEnforcersFor(key)) {
+          if (enforcer.coerce != null) {
+            const coerce = enforcer.coerce.bind(enforcer)
+            const currentValue = propertyValue
+            propertyValue = coerceNested(key, () => coerce(currentValue))
+          } else if (this.removeInvalid && countKeywordFailures(enforcer.validate(propertyValue)) > 0) {
+            removed = true
+            break
+          }
+        }
+        if (removed) {
+          recordCoercionChange({
+            keyword: this.keyword,
+            instancePath: [key],
+            before: propertyValue,
+            after: undefined,
+            reason: 'removed invalid property'
+          })
+        } else {
+          setOwnProperty(results, key, propertyValue)
+        }
+      }
+      for (const key of this.defaultKeys) {
+        const enforcer = this.propertyEnforcers[key]
+        if (Object.prototype.hasOwnProperty.call(results, key) || enforcer?.coerce == null) continue
+        const coerce = enforcer.coerce.bind(enforcer)
+        const propertyValue = reportCoercion(() => coerce(undefined)).value
+        // Advisory errors count here too, as those include the subschema's default being invalid.
+        if (enforcer.validate(propertyValue).errors.length < 1) {
+          setOwnProperty(results, key, propertyValue)
+          recordCoercionChange({
+            keyword: this.keyword,
+            instancePath: [key],
+            before: undefined,
+            after: propertyValue,
+            reason: 'added default property'
+          })
+        }
+      }
+      return results
+    })
+  }
+}
+
+/**
+ * Applies subschema enforcers to all properties whose names match the associated pattern.
+ * Enforcers are stored by their pattern.
+ * @class
+ * @extends JSONSchemaPropertiesEnforcer
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} patternEnforcers - enforcers by pattern
+ * @param {boolean} removeInvalid - whether coercion should drop invalid properties that can't be coerced
+ */
+export class JSONSchemaPatternPropertiesEnforcer extends JSONSchemaPropertiesEnforcer {
+  expressions: Record<string, RegExp> = {}
+
+  constructor (
+    keyword: string,
+    value: any,
+    patternEnforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>,
+    removeInvalid = true
+  ) {
+    super(keyword, value, patternEnforcers, undefined, undefined, removeInvalid)
+    for (const pattern in patternEnforcers) {
+      const expression = createSchemaRegExp(pattern)
+      if (expression != null) {
+        this.expressions[pattern] = expression
+      }
+    }
+  }
+
+  getSubschemaEnforcersFor (
+    key: string
+  ): PropertySubschemaEnforcer[] {
+    const results: PropertySubschemaEnforcer[] = []
+    for (const pattern in this.expressions) {
+      if (this.expressions[pattern].test(key)) {
+        results.push({ schemaPath: [this.keyword, pattern], enforcer: this.propertyEnforcers[pattern] })
+      }
+    }
+    return results
+  }
+}
+
+/**
+ * Handles the JSON schema properties keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaPropertiesRule implements KeywordRule {
+  keyword: string
+  defaultKeyword = 'default'
+
+  constructor (
+    keyword = 'properties'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (typeof value === 'object' && value != null && factory != null) {
+      const propertyEnforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+      const defaultKeys: string[] = []
+      for (const key in value) {
+        const subschema = value[key]
+        propertyEnforcers[key] = factory.process(subschema, context)
+        if (typeof subschema === 'object' && subschema != null && this.defaultKeyword in subschema) {
+          defaultKeys.push(key)
+        }
+      }
+      return new JSONSchemaPropertiesEnforcer(
+        this.keyword,
+        value,
+        propertyEnforcers,
+        undefined,
+        undefined,
+        context?.coercionPolicy?.allowLossy ?? true,
+        defaultKeys
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema patternProperties keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {boolean} removeInvalid - whether coercion should drop invalid properties that can't be coerced
+ */
+export class JSONSchemaPatternPropertiesRule implements KeywordRule {
+  keyword: string
+  removeInvalid: boolean
+
+  constructor (
+    keyword = 'patternProperties',
+    removeInvalid = true
+  ) {
+    this.keyword = keyword
+    this.removeInvalid = removeInvalid
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (typeof value === 'object' && value != null && factory != null) {
+      const patternEnforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+      for (const pattern in value) {
+        patternEnforcers[pattern] = factory.process(value[pattern], context)
+      }
+      return new JSONSchemaPatternPropertiesEnforcer(
+        this.keyword,
+        value,
+        patternEnforcers,
+        this.removeInvalid && (context?.coercionPolicy?.allowLossy ?? true)
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema additionalProperties keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} propertiesKeyword - schema property for named property subschemas
+ * @param {boolean} removeInvalid - whether coercion should drop disallowed properties
+ * @param {string} patternPropertiesKeyword - schema property for pattern matched property subschemas
+ */
+export class JSONSchemaAdditionalPropertiesRule implements KeywordRule {
+  keyword: string
+  propertiesKeyword: string
+  removeInvalid: boolean
+  patternPropertiesKeyword: string
+
+  constructor (
+    keyword = 'additionalProperties',
+    propertiesKeyword = 'properties',
+    removeInvalid = true,
+    patternPropertiesKeyword = 'patternProperties'
+  ) {
+    this.keyword = keyword
+    this.propertiesKeyword = propertiesKeyword
+    this.removeInvalid = removeInvalid
+    this.patternPropertiesKeyword = patternPropertiesKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && factory != null) {
+      return new JSONSchemaPropertiesEnforcer(
+        this.keyword,
+        value,
+        {},
+        factory.process(value, context),
+        (key: string) => this.isCovered(key, schema),
+        this.removeInvalid && (context?.coercionPolicy?.allowLossy ?? true)
+      )
+    }
+  }
+
+  /**
+   * Checks if a property is covered by one of the schema's other property keywords.
+   * @function
+   * @param {string} key - name of the target property
+   * @param {UntypedObject} schema - schema to be evaluated
+   * @returns {boolean}
+   */
+  isCovered (key: string, schema: UntypedObject): boolean {
+    const properties = schema[this.propertiesKeyword]
+    if (typeof properties === 'object' && properties != null && Object.prototype.hasOwnProperty.call(properties, key)) {
+      return true
+    }
+    const patterns = schema[this.patternPropertiesKeyword]
+    if (typeof patterns === 'object' && patterns != null) {
+      for (const pattern in patterns) {
+        if (createSchemaRegExp(pattern)?.test(key) === true) {
+          return true
+        }
+      }
+    }
+    return false
+  }
+}
+
+/**
+ * Handles the JSON schema required keyword.
+ * Missing properties are filled in by coercing undefined with the property's subschema.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} propertiesKeyword - schema property for named property subschemas
+ */
+export class JSONSchemaRequiredRule implements KeywordRule {
+  keyword: string
+  propertiesKeyword: string
+
+  constructor (
+    keyword = 'required',
+    propertiesKeyword = 'properties'
+  ) {
+    this.keyword = keyword
+    this.propertiesKeyword = propertiesKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (Array.isArray(value)) {
+      const keys: string[] = value.filter((key) => typeof key === 'string')
+      return new JSONSchemaRequiredEnforcer(
+        this.keyword,
+        value,
+        keys,
+        createPropertyFiller(schema[this.propertiesKeyword], context)
+      )
+    }
+  }
+}
+
+/**
+ * Creates a callback that provides values for missing properties by coercing undefined with the property's subschema.
+ * Properties without a subschema are filled with null.
+ * @function
+ * @param {any} properties - map of property subschemas
+ * @param {JSONSchemaEnforcerContext | undefined} context - provides the subschema factory
+ * @returns {Convert<string, any>}
+ */
+export function createPropertyFiller (
+  properties: any,
+  context?: JSONSchemaEnforcerContext
+): Convert<string, any> {
+  return (key: string) => {
+    const subschema = typeof properties === 'object' && properties != null
+      ? properties[key]
+      : undefined
+    if (subschema !== undefined && context?.subschemaFactory != null) {
+      const enforcer = context.subschemaFactory.process(subschema, context)
+      const coerce = enforcer.coerce
+      if (coerce != null) {
+        return reportCoercion(() => coerce.call(enforcer, undefined)).value
+      }
+    }
+    return null
+  }
+}
+
+/**
+ * Checks that an object has all of the listed properties.
+ * @class
+ * @implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>>
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {string[]} keys - names of the required properties
+ * @param {Convert<string, any>} getFillValue - provides values for missing properties
+ */
+export class JSONSchemaRequiredEnforcer
+implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>> {
+  keyword: string
+  value: any
+  keys: string[]
+  getFillValue: Convert<string, any>
+  priority = 50
+
+  constructor (
+    keyword: string,
+    value: any,
+    keys: string[],
+    getFillValue: Convert<string, any>
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.keys = keys
+    this.getFillValue = getFillValue
+  }
+
+  /**
+   * Lists which required properties the target object lacks.
+   * @function
+   * @param {UntypedObject} target - object to be evaluated
+   * @returns {string[]}
+   */
+  getMissingKeys (target: UntypedObject): string[] {
+    return this.keys.filter((key) => !Object.prototype.hasOwnProperty.call(target, key))
+  }
+
+  validate (target: UntypedObject): ErrorLog<KeywordError> {
+    const missingKeys = this.getMissingKeys(target)
+    return {
+      errors: missingKeys.map((key) => ({
+        keyword: this.keyword,
+        value: this.value,
+        target,
+        priority: this.priority,
+        coerce: (value: UntypedObject) => this.coerce(value),
+        instancePath: [key],
+        schemaPath: []
+      }))
+    }
+  }
+
+  coerce (target: UntypedObject): UntypedObject {
+    const missingKeys = this.getMissingKeys(target)
+    if (missingKeys.length < 1) return target
+    const results = copyOwnProperties(target)
+    for (const key of missingKeys) {
+      setOwnProperty(results, key, this.getFillValue(key))
+      recordCoercionChange({
+        instancePath: [key],
+        before: undefined,
+        after: results[key],
+        reason: 'added missing property'
+      })
+    }
+    return results
+  }
+}
+
+/**
+ * Handles the JSON schema dependentRequired keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} propertiesKeyword - schema property for named property subschemas
+ */
+export class JSONSchemaDependentRequiredRule implements KeywordRule {
+  keyword: string
+  propertiesKeyword: string
+
+  constructor (
+    keyword = 'dependentRequired',
+    propertiesKeyword = 'properties'
+  ) {
+    this.keyword = keyword
+    this.propertiesKeyword = propertiesKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    if (typeof value === 'object' && value != null) {
+      return new JSONSchemaDependentRequiredEnforcer(
+        this.keyword,
+        value,
+        createPropertyFiller(schema[this.propertiesKeyword], context)
+      )
+    }
+  }
+}
+
+/**
+ * Checks that an object has all properties required by the properties it contains.
+ * @class
+ * @extends JSONSchemaRequiredEnforcer
+ * @param {string} keyword - associated schema property
+ * @param {Record<string, string[]>} value - lists of required properties by the property that requires them
+ * @param {Convert<string, any>} getFillValue - provides values for missing properties
+ */
+export class JSONSchemaDependentRequiredEnforcer extends JSONSchemaRequiredEnforcer {
+  constructor (
+    keyword: string,
+    value: Record<string, string[]>,
+    getFillValue: Convert<string, any>
+  ) {
+    super(keyword, value, [], getFillValue)
+  }
+
+  getMissingKeys (target: UntypedObject): string[] {
+    const missingKeys: string[] = []
+    for (const key in this.value) {
+      if (!Object.prototype.hasOwnProperty.call(target, key)) continue
+      const dependencies = this.value[key]
+      if (!Array.isArray(dependencies)) continue
+      for (const dependency of dependencies) {
+        if (
+          typeof dependency === 'string' &&
+          !Object.prototype.hasOwnProperty.call(target, dependency) &&
+          !missingKeys.includes(dependency)
+        ) {
+          missingKeys.push(dependency)
+        }
+      }
+    }
+    return missingKeys
+  }
+}
+
+/**
+ * Handles the JSON schema dependentSchemas keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaDependentSchemasRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'dependentSchemas'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (typeof value === 'object' && value != null && factory != null) {
+      const enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+      for (const key in value) {
+        const subschema = value[key]
+        if (typeof subschema === 'boolean' || (typeof subschema === 'object' && !Array.isArray(subschema))) {
+          enforcers[key] = factory.process(subschema, context)
+        }
+      }
+      return new JSONSchemaDependentSchemasEnforcer(this.keyword, value, enforcers)
+    }
+  }
+}
+
+/**
+ * Applies subschemas to the whole object when the associated property is present.
+ * @class
+ * @implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} enforcers - enforcers by triggering property
+ */
+export class JSONSchemaDependentSchemasEnforcer
+implements ValueConstraint<UntypedObject, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  keyword: string
+  value: any
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>
+  priority = 50
+
+  constructor (
+    keyword: string,
+    value: any,
+    enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.enforcers = enforcers
+  }
+
+  validate (target: UntypedObject): ErrorLog<KeywordError, KeywordAnnotation> {
+    let annotations: KeywordAnnotation[] = []
+    let errors: KeywordError[] = []
+    for (const key in this.enforcers) {
+      if (!Object.prototype.hasOwnProperty.call(target, key)) continue
+      const validation = this.enforcers[key].validate(target)
+      annotations = annotations.concat(
+        nestKeywordAnnotations(validation.annotations, undefined, [this.keyword, key])
+      )
+      if (validation.errors.length > 0) {
+        errors = errors.concat(
+          nestKeywordErrors(
+            validation.errors,
+            undefined,
+            {
+              keyword: this.keyword,
+              value: this.value[key],
+              target,
+              priority: this.priority,
+              coerce: (value: UntypedObject) => this.coerce(value)
+            },
+            [this.keyword, key]
+          )
+        )
+        if (!isCollectingAllErrors() && countKeywordFailures(validation) > 0) break
+      }
+    }
+    return countKeywordFailures({ errors }) > 0 ? { errors } : { errors, annotations }
+  }
+
+  coerce (target: UntypedObject): UntypedObject {
+    let result = target
+    for (const key in this.enforcers) {
+      const enforcer = this.enforcers[key]
+      if (Object.prototype.hasOwnProperty.call(result, key) && enforcer.coerce != null) {
+        result = enforcer.coerce(result)
+      }
+    }
+    return result
+  }
+}
+
+/**
+ * Handles the pre 2019-09 JSON schema dependencies keyword.
+ * Arrays are treated as dependent required properties while other values are treated as dependent schemas.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} propertiesKeyword - schema property for named property subschemas
+ */
+export class JSONSchemaDependenciesRule implements KeywordRule {
+  keyword: string
+  propertiesKeyword: string
+
+  constructor (
+    keyword = 'dependencies',
+    propertiesKeyword = 'properties'
+  ) {
+    this.keyword = keyword
+    this.propertiesKeyword = propertiesKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const schemasEnforcer = new JSONSchemaDependentSchemasRule(this.keyword).getEnforcerFor(schema, context)
+    if (schemasEnforcer instanceof JSONSchemaDependentSchemasEnforcer) {
+      return new JSONSchemaDependenciesEnforcer(
+        this.keyword,
+        schemasEnforcer.value,
+        schemasEnforcer.enforcers,
+        createPropertyFiller(schema[this.propertiesKeyword], context)
+      )
+    }
+  }
+}
+
+/**
+ * Applies both dependent required properties and dependent schemas from a single map.
+ * @class
+ * @extends JSONSchemaDependentSchemasEnforcer
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>} enforcers - enforcers by triggering property
+ * @param {Convert<string, any>} getFillValue - provides values for missing properties
+ */
+export class JSONSchemaDependenciesEnforcer extends JSONSchemaDependentSchemasEnforcer {
+  requiredEnforcer: JSONSchemaDependentRequiredEnforcer
+
+  constructor (
+    keyword: string,
+    value: any,
+    enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>>,
+    getFillValue: Convert<string, any>
+  ) {
+    super(keyword, value, enforcers)
+    this.requiredEnforcer = new JSONSchemaDependentRequiredEnforcer(keyword, value, getFillValue)
+  }
+
+  validate (target: UntypedObject): ErrorLog<KeywordError> {
+    const validation = this.requiredEnforcer.validate(target)
+    if (countKeywordFailures(validation) < 1) {
+      return super.validate(target)
+    }
+    if (isCollectingAllErrors()) {
+      return {
+        errors: validation.errors.concat(super.validate(target).errors)
+      }
+    }
+    return validation
+  }
+
+  coerce (target: UntypedObject): UntypedObject {
+    return super.coerce(this.requiredEnforcer.coerce(target))
+  }
+}
+
+/**
+ * Handles the JSON schema propertyNames keyword.
+ * Coercion renames properties to the coerced version of their name, dropping them if that's still invalid or already taken.
+ * Properties are left as is when the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaPropertyNamesRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'propertyNames'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && factory != null) {
+      const nameEnforcer = factory.process(value, context)
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      const coerce = (target: UntypedObject): UntypedObject => allowLossy
+        ? this.renameProperties(target, nameEnforcer)
+        : target
+      const enforcer: ValueConstraint<UntypedObject, ErrorLog<KeywordError>> & KeywordEnforcerContext = {
+        enforcers: { [this.keyword]: nameEnforcer },
+        validate: (target: UntypedObject) => {
+          let errors: KeywordError[] = []
+          for (const key of Object.keys(target)) {
+            const validation = nameEnforcer.validate(key)
+            if (validation.errors.length > 0) {
+              errors = errors.concat(
+                nestKeywordErrors(
+                  validation.errors,
+                  key,
+                  {
+                    keyword: this.keyword,
+                    value,
+                    target: key,
+                    priority: 50,
+                    coerce
+                  },
+                  [this.keyword]
+                )
+              )
+              if (!isCollectingAllErrors() && countKeywordFailures(validation) > 0) break
+            }
+          }
+          return { errors }
+        },
+        coerce
+      }
+      return enforcer
+    }
+  }
+
+  /**
+   * Copies an object, renaming or dropping any properties with invalid names.
+   * @function
+   * @param {UntypedObject} target - object to be converted
+   * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} nameEnforcer - enforcer for property names
+   * @returns {UntypedObject}
+   */
+  renameProperties (
+    target: UntypedObject,
+    nameEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  ): UntypedObject {
+    const results: UntypedObject = {}
+    const renamed: Record<string, string> = {}
+    for (const key of Object.keys(target)) {
+      if (countKeywordFailures(nameEnforcer.validate(key)) < 1) {
+        setOwnProperty(results, key, target[key])
+      } else if (nameEnforcer.coerce != null) {
+        const coerce = nameEnforcer.coerce
+        const name = reportCoercion(() => coerce.call(nameEnforcer, key)).value
+        if (typeof name === 'string' && countKeywordFailures(nameEnforcer.validate(name)) < 1) {
+          renamed[name] = key
+        }
+      }
+    }
+    const appliedNames: Record<string, string> = {}
+    for (const name of Object.keys(renamed)) {
+      if (!Object.prototype.hasOwnProperty.call(results, name) && !Object.prototype.hasOwnProperty.call(target, name)) {
+        setOwnProperty(results, name, target[renamed[name]])
+        appliedNames[renamed[name]] = name
+      }
+    }
+    for (const key of Object.keys(target)) {
+      if (Object.prototype.hasOwnProperty.call(results, key)) continue
+      recordCoercionChange({
+        instancePath: [key],
+        before: target[key],
+        after: undefined,
+        reason: Object.prototype.hasOwnProperty.call(appliedNames, key)
+          ? `renamed to ${appliedNames[key]}`
+          : 'removed property with invalid name'
+      })
+    }
+    return results
+  }
+}
+
+/**
+ * Handles a JSON schema keyword that limits how many properties an object can have.
+ * Coercion removes trailing properties that aren't required or adds missing subschema properties.
+ * Properties are only removed if the coercion policy allows lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {number} direction - 1 for minimums, -1 for maximums
+ * @param {string} propertiesKeyword - schema property for named property subschemas
+ * @param {string} requiredKeyword - schema property for required property names
+ */
+export class JSONSchemaPropertyCountRule implements KeywordRule {
+  keyword: string
+  direction: 1 | -1
+  propertiesKeyword: string
+  requiredKeyword: string
+
+  constructor (
+    keyword: string,
+    direction: 1 | -1,
+    propertiesKeyword = 'properties',
+    requiredKeyword = 'required'
+  ) {
+    this.keyword = keyword
+    this.direction = direction
+    this.propertiesKeyword = propertiesKeyword
+    this.requiredKeyword = requiredKeyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      const check = (target: UntypedObject): boolean =>
+        (Object.keys(target).length - limit) * this.direction >= 0
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        check,
+        (target: UntypedObject) => {
+          if (check(target)) return target
+          if (this.direction < 0 && !allowLossy) return target
+          return this.direction > 0
+            ? this.addProperties(target, limit, schema, context)
+            : this.removeProperties(target, limit, schema)
+        },
+        50
+      )
+    }
+  }
+
+  /**
+   * Fills in unused subschema properties until the object reaches the target size.
+   * @function
+   * @param {UntypedObject} target - object to be expanded
+   * @param {number} limit - minimum number of properties
+   * @param {UntypedObject} schema - schema containing the property subschemas
+   * @param {JSONSchemaEnforcerContext | undefined} context - provides the subschema factory
+   * @returns {UntypedObject}
+   */
+  addProperties (
+    target: UntypedObject,
+    limit: number,
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): UntypedObject {
+    const results = copyOwnProperties(target)
+    const properties = schema[this.propertiesKeyword]
+    if (typeof properties !== 'object' || properties == null) return results
+    const fill = createPropertyFiller(properties, context)
+    let count = Object.keys(results).length
+    for (const key in properties) {
+      if (count >= limit) break
+      if (Object.prototype.hasOwnProperty.call(results, key)) continue
+      setOwnProperty(results, key, fill(key))
+      recordCoercionChange({
+        instancePath: [key],
+        before: undefined,
+        after: results[key],
+        reason: 'added property'
+      })
+      count++
+    }
+    return results
+  }
+
+  /**
+   * Removes trailing optional properties until the object is within the target size.
+   * @function
+   * @param {UntypedObject} target - object to be reduced
+   * @param {number} limit - maximum number of properties
+   * @param {UntypedObject} schema - schema listing the required properties
+   * @returns {UntypedObject}
+   */
+  removeProperties (
+    target: UntypedObject,
+    limit: number,
+    schema: UntypedObject
+  ): UntypedObject {
+    const required = schema[this.requiredKeyword]
+    const requiredKeys: any[] = Array.isArray(required) ? required : []
+    const keys = Object.keys(target)
+    const removedKeys: string[] = []
+    for (let i = keys.length - 1; i >= 0 && keys.length - removedKeys.length > limit; i--) {
+      if (!requiredKeys.includes(keys[i])) {
+        removedKeys.push(keys[i])
+      }
+    }
+    const results: UntypedObject = {}
+    for (const key of keys) {
+      if (removedKeys.includes(key)) {
+        recordCoercionChange({
+          instancePath: [key],
+          before: target[key],
+          after: undefined,
+          reason: 'removed property'
+        })
+      } else {
+        setOwnProperty(results, key, target[key])
+      }
+    }
+    return results
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema object keyword rules.
+ * @function
+ * @param {boolean} removeInvalid - whether coercion should drop disallowed properties
+ * @param {boolean} combinedDependencies - use the pre 2019-09 dependencies keyword in place of dependentRequired and dependentSchemas
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaObjectRules (
+  removeInvalid = true,
+  combinedDependencies = false
+): KeywordRule[] {
+  const dependencyRules = combinedDependencies
+    ? [new JSONSchemaDependenciesRule()]
+    : [
+        new JSONSchemaDependentRequiredRule(),
+        new JSONSchemaDependentSchemasRule()
+      ]
+  return [
+    new JSONSchemaPropertyNamesRule(),
+    new JSONSchemaPropertiesRule(),
+    new JSONSchemaPatternPropertiesRule('patternProperties', removeInvalid),
+    new JSONSchemaAdditionalPropertiesRule('additionalProperties', 'properties', removeInvalid),
+    new JSONSchemaPropertyCountRule('maxProperties', -1),
+    new JSONSchemaRequiredRule(),
+    ...dependencyRules,
+    new JSONSchemaPropertyCountRule('minProperties', 1)
+  ]
+}
@@ -1,8 +1,19 @@
 import type { ConversionFactory, SchemaEnforcer, UntypedObject } from '../generic/coercion'
 import { type ErrorLog } from '../generic/validation'
 import { type KeywordError, KeywordErrorLogValidationParser } from '../generic/keywords'
-import { SchemaOptionsFactory, SchemaOptionsParser, KeyedSchemaLabeler } from '../generic/options'
-import { type BooleanFork, type FlagOrObject, JSONSchemaEnforcerFactory } from './coercion'
+import {
+  type LabeledValue,
+  SchemaOptionsFactory,
+  SchemaOptionsParser,
+  KeyedSchemaLabeler
+} from '../generic/options'
+import {
+  type BooleanFork,
+  type FlagOrObject,
+  type JSONSchemaEnforcerContext,
+  JSONSchemaEnforcerFactory
+} from './coercion'
+import { type JSONSchemaReference, JSONSchemaRegistry } from './references'
 
 /**
  * Standard list of JSON schema label properties in descending order of precedence.
@@ -104,73 +115,173 @@ export function getExpandedTypeOf (value: any): string {
  * @implements ConversionFactory<FlagOrObject, FlagOrObject[]>
  * @param {booleanLabels: BooleanFork<UntypedObject[]>} booleanSchemas - map of subschemas for true / false schema
  * @param {string[]} subschemaKeys - list of keywords that can contain subschema branches
+ * @param {JSONSchemaRegistry} registry - resolves references to other schemas
  */
 export class JSONSchemaSplitter implements ConversionFactory<FlagOrObject, FlagOrObject[]> {
   booleanSchemas: BooleanFork<UntypedObject[]>
   subschemaKeys: string[]
   enumKey = 'enum'
+  refKey = '$ref'
+  registry: JSONSchemaRegistry
 
   constructor (
     subschemaKeys: string[] = ['oneOf', 'anyOf'],
     booleanSchemas: BooleanFork<UntypedObject[]> = {
       true: structuredClone(ANY_VALUE_JSON_SCHEMA.oneOf),
       false: [NO_VALUE_JSON_SCHEMA]
-    }
+    },
+    registry = new JSONSchemaRegistry()
   ) {
     this.booleanSchemas = booleanSchemas
     this.subschemaKeys = subschemaKeys
+    this.registry = registry
   }
 
   process (source: FlagOrObject): FlagOrObject[] {
+    return this.getBranches(source).map((branch) => branch.schema)
+  }
+
+  /**
+   * Produces the potential subschema branches for a JSON schema, along with the schema resource and base URI each branch's references should be resolved against.
+   * @function
+   * @param {FlagOrObject} source - schema to be split
+   * @returns {JSONSchemaReference[]}
+   */
+  getBranches (source: FlagOrObject): JSONSchemaReference[] {
     if (typeof source === 'boolean') {
-      return source ? this.booleanSchemas.true : this.booleanSchemas.false
+      const schemas = source ? this.booleanSchemas.true : this.booleanSchemas.false
+      return schemas.map((schema) => ({ schema, root: schema, baseURI: '' }))
+    }
+    let target: UntypedObject = source
+    let rootSchema: FlagOrObject = source
+    let baseURI = this.registry.getBaseURI(source)
+    const visited: UntypedObject[] = []
+    while (!this.hasBranches(target) && !visited.includes(target)) {
+      visited.push(target)
+      const reference = this.resolveReference(target, rootSchema, baseURI)
+      if (reference == null) break
+      if (typeof reference.schema === 'boolean') {
+        return this.getBranches(reference.schema)
+      }
+      target = reference.schema
+      rootSchema = reference.root
+      baseURI = this.registry.getBaseURI(target, reference.baseURI)
     }
+    const createBranch = (schema: FlagOrObject): JSONSchemaReference => ({ schema, root: rootSchema, baseURI })
     if (this.enumKey !== '') {
-      const enumValues = source[this.enumKey]
+      const enumValues = target[this.enumKey]
       if (Array.isArray(enumValues)) {
-        return enumValues.map(item => ({
+        return enumValues.map(item => createBranch({
           const: item
         }))
       }
     }
     for (const keyword of this.subschemaKeys) {
-      const keyValue = source[keyword]
+      const keyValue = target[keyword]
       if (Array.isArray(keyValue)) {
         const filteredItems = keyValue.filter(
           (item) => (typeof item === 'boolean') ||
             (typeof item === 'object' && item != null && !Array.isArray(item))
         ) as FlagOrObject[]
-        return filteredItems
+        return filteredItems.map(item => {
+          // Options with other keywords are kept as is, leaving their reference to the enforcer factory.
+          if (typeof item === 'object' && Object.keys(item).length === 1) {
+            const itemReference = this.resolveReference(item, rootSchema, baseURI)
+            if (itemReference != null) return itemReference
+          }
+          return createBranch(item)
+        })
       }
     }
-    const typeValue = source.type
+    const typeValue = target.type
     if (Array.isArray(typeValue)) {
       const typeNames = typeValue.filter((item) => typeof item === 'string')
-      const types = typeNames.map((type) => ({ type }))
+      const types = typeNames.map((type) => createBranch({ type }))
       return types
     }
-    return [source]
+    return [createBranch(target)]
+  }
+
+  /**
+   * Checks if a schema has it's own list of potential branches.
+   * @function
+   * @param {UntypedObject} source - schema to be evaluated
+   * @returns {boolean}
+   */
+  hasBranches (source: UntypedObject): boolean {
+    if (this.enumKey !== '' && Array.isArray(source[this.enumKey])) return true
+    for (const keyword of this.subschemaKeys) {
+      if (Array.isArray(source[keyword])) return true
+    }
+    return Array.isArray(source.type)
+  }
+
+  /**
+   * Tries to find the subschema a schema's reference points to.
+   * @function
+   * @param {UntypedObject} source - schema with the reference
+   * @param {FlagOrObject} rootSchema - schema resource the source is part of
+   * @param {string} baseURI - URI the reference is resolved against
+   * @returns {JSONSchemaReference | undefined}
+   */
+  resolveReference (
+    source: UntypedObject,
+    rootSchema: FlagOrObject,
+    baseURI: string
+  ): JSONSchemaReference | undefined {
+    const value = source[this.refKey]
+    if (typeof value === 'string') {
+      return this.registry.resolve(value, baseURI, rootSchema)
+    }
   }
 }
 
 /**
  * Generates labeled subschema options from a given JSON schema.
+ * Each option's enforcer is built with the schema resource and base URI it came from, so references within the option still resolve.
  * @class
  * @extends SchemaOptionsFactory<FlagOrObject, ErrorLog<Partial<KeywordError>>>
+ * @param {ConversionFactory<FlagOrObject, SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>>} enforcerFactory - produces enforcers for each option
+ * @param {JSONSchemaRegistry} registry - resolves references while splitting, shared with the enforcer factory by default
  */
 export class JSONSchemaOptionsFactory extends SchemaOptionsFactory<FlagOrObject, ErrorLog<Partial<KeywordError>>> {
   constructor (
     enforcerFactory: ConversionFactory<
     FlagOrObject,
     SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>
-    > = new JSONSchemaEnforcerFactory()
+    > = new JSONSchemaEnforcerFactory(),
+    registry = enforcerFactory instanceof JSONSchemaEnforcerFactory
+      ? enforcerFactory.registry
+      : new JSONSchemaRegistry()
   ) {
     super(
       enforcerFactory,
       new JSONSchemaLabeler(),
-      new JSONSchemaSplitter()
+      new JSONSchemaSplitter(undefined, undefined, registry)
     )
   }
+
+  process (
+    schema: FlagOrObject
+  ): Array<LabeledValue<SchemaEnforcer<FlagOrObject, ErrorLog<Partial<KeywordError>>>>> {
+    if (!(this.splitter instanceof JSONSchemaSplitter)) {
+      return super.process(schema)
+    }
+    return this.splitter.getBranches(schema).map((branch) => {
+      const context: JSONSchemaEnforcerContext = {
+        enforcers: {},
+        rootSchema: branch.root,
+        baseURI: branch.baseURI
+      }
+      if (this.enforcerFactory instanceof JSONSchemaEnforcerFactory && typeof branch.root === 'object') {
+        context.dialect = this.enforcerFactory.getDialectFor(branch.root)
+      }
+      return {
+        label: this.labelFactory.process(branch.schema),
+        value: this.enforcerFactory.process(branch.schema, context)
+      }
+    })
+  }
 }
 
 /**
@@ -0,0 +1,363 @@
+import { type ErrorLog } from '../generic/validation'
+import { type KeywordErrorMessageFormatter } from '../generic/messages'
+import {
+  type KeywordAnnotation,
+  type KeywordError,
+  KeywordErrorLogValidationParser,
+  createJSONPointer
+} from '../generic/keywords'
+import type { FlagOrObject } from './coercion'
+import {
+  JSONSchemaRegistry,
+  splitURIFragment,
+  resolveURIReference
+} from './references'
+import { createJSONSchemaMessageFormatter } from './messages'
+
+/**
+ * Names of the output formats defined by the JSON schema specification.
+ * @type
+ */
+export type JSONSchemaOutputFormat = 'flag' | 'basic' | 'detailed' | 'verbose'
+
+/**
+ * Serializable validation result, following the JSON schema specification's output format.
+ * @interface
+ * @property {boolean} valid - whether the target value passed
+ * @property {string | undefined} keywordLocation - JSON pointer to the keyword, following any references
+ * @property {string | undefined} absoluteKeywordLocation - absolute URI of the keyword, after references are resolved
+ * @property {string | undefined} instanceLocation - JSON pointer to the evaluated value
+ * @property {string | undefined} error - description of the failure
+ * @property {any} annotation - value reported by an annotating keyword
+ * @property {JSONSchemaOutputUnit[] | undefined} errors - nested failures
+ * @property {JSONSchemaOutputUnit[] | undefined} annotations - nested annotations and passing results
+ */
+export interface JSONSchemaOutputUnit {
+  valid: boolean
+  keywordLocation?: string
+  absoluteKeywordLocation?: string
+  instanceLocation?: string
+  error?: string
+  annotation?: any
+  errors?: JSONSchemaOutputUnit[]
+  annotations?: JSONSchemaOutputUnit[]
+}
+
+/**
+ * Output unit paired with the paths used to place it within a hierarchy.
+ * @interface
+ * @property {Array<string | number>} keywordPath - path to the keyword within the schema
+ * @property {Array<string | number>} instancePath - path to the evaluated value
+ * @property {JSONSchemaOutputUnit} unit - unit to be placed
+ */
+interface JSONSchemaOutputLeaf {
+  keywordPath: Array<string | number>
+  instancePath: Array<string | number>
+  unit: JSONSchemaOutputUnit
+}
+
+/**
+ * Standard list of JSON schema keywords that map names to subschemas.
+ * @constant
+ */
+export const JSON_SCHEMA_NAMED_SUBSCHEMA_KEYWORDS: string[] = [
+  'properties',
+  'patternProperties',
+  'dependentSchemas',
+  'dependencies',
+  '$defs',
+  'definitions'
+]
+
+/**
+ * Converts keyword error logs into the output formats defined by the JSON schema specification.
+ * Coercion callbacks and target values are left out, so the results can be serialized.
+ * @class
+ * @param {JSONSchemaRegistry} registry - resolves references when finding absolute keyword locations
+ * @param {(error: Partial<KeywordError>) => string} getErrorMessage - describes a failed keyword, using the message formatter by default
+ */
+export class JSONSchemaOutputFormatter {
+  registry: JSONSchemaRegistry
+  getErrorMessage: (error: Partial<KeywordError>) => string
+  namedSubschemaKeywords = JSON_SCHEMA_NAMED_SUBSCHEMA_KEYWORDS
+  refKeyword = '$ref'
+  validationParser = new KeywordErrorLogValidationParser()
+  messageFormatter: KeywordErrorMessageFormatter = createJSONSchemaMessageFormatter()
+
+  constructor (
+    registry = new JSONSchemaRegistry(),
+    getErrorMessage = (error: Partial<KeywordError>) => this.messageFormatter.process(error)
+  ) {
+    this.registry = registry
+    this.getErrorMessage = getErrorMessage
+  }
+
+  /**
+   * Converts a validation result to the requested output format.
+   * Advisory errors, those with a negative priority, only show up in the verbose format.
+   * @function
+   * @param {ErrorLog<Partial<KeywordError>, KeywordAnnotation>} validation - result to be converted
+   * @param {JSONSchemaOutputFormat} outputFormat - target format
+   * @param {FlagOrObject | undefined} schema - validated schema, needed for absolute keyword locations
+   * @param {string} baseURI - URI of the validated schema
+   * @returns {JSONSchemaOutputUnit}
+   */
+  format (
+    validation: ErrorLog<Partial<KeywordError>, KeywordAnnotation>,
+    outputFormat: JSONSchemaOutputFormat = 'basic',
+    schema?: FlagOrObject,
+    baseURI = ''
+  ): JSONSchemaOutputUnit {
+    const valid = this.validationParser.isValid(validation)
+    if (outputFormat === 'flag') {
+      return { valid }
+    }
+    const errorLeaves: JSONSchemaOutputLeaf[] = []
+    const advisoryLeaves: JSONSchemaOutputLeaf[] = []
+    for (const error of validation.errors) {
+      const advisory = error.priority != null && error.priority < 0
+      const leaf = this.createLeaf(
+        error.keyword,
+        error.schemaPath,
+        error.instancePath,
+        { valid: advisory, error: this.getErrorMessage(error) },
+        schema,
+        baseURI
+      )
+      if (advisory) {
+        advisoryLeaves.push(leaf)
+      } else {
+        errorLeaves.push(leaf)
+      }
+    }
+    const annotationLeaves = (validation.annotations ?? []).map(
+      (annotation) => this.createLeaf(
+        annotation.keyword,
+        annotation.schemaPath,
+        annotation.instancePath,
+        { valid: true, annotation: annotation.value },
+        schema,
+        baseURI
+      )
+    )
+    const leaves = outputFormat === 'verbose'
+      ? errorLeaves.concat(advisoryLeaves, annotationLeaves)
+      : valid ? annotationLeaves : errorLeaves
+    if (outputFormat === 'basic') {
+      const result: JSONSchemaOutputUnit = { valid }
+      if (leaves.length > 0) {
+        result[valid ? 'annotations' : 'errors'] = leaves.map((leaf) => leaf.unit)
+      }
+      return result
+    }
+    return this.createNode([], leaves, outputFormat === 'detailed', schema, baseURI)
+  }
+
+  /**
+   * Gets the path to a keyword, given the path to the subschema it was reported from.
+   * Errors from false subschemas and keywords that report on one of their own subschemas already end at the keyword or the keyword and an index / name, so those paths are used as is.
+   * @function
+   * @param {string | undefined} keyword - reporting keyword
+   * @param {Array<string | number>} schemaPath - location of the reporting subschema
+   * @returns {Array<string | number>}
+   */
+  getKeywordPath (
+    keyword: string | undefined,
+    schemaPath: Array<string | number> = []
+  ): Array<string | number> {
+    if (keyword == null) return schemaPath
+    const index = schemaPath.lastIndexOf(keyword)
+    if (index >= 0 && index >= schemaPath.length - 2) {
+      const parent = schemaPath[index - 1]
+      if (typeof parent !== 'string' || !this.namedSubschemaKeywords.includes(parent)) {
+        return schemaPath
+      }
+    }
+    return schemaPath.concat([keyword])
+  }
+
+  /**
+   * Gets the absolute URI of a schema location, following any references along the way.
+   * @function
+   * @param {Array<string | number>} keywordPath - location within the schema, as evaluated
+   * @param {FlagOrObject} schema - schema the path starts from
+   * @param {string} baseURI - URI of the provided schema
+   * @returns {string | undefined}
+   */
+  getAbsoluteKeywordLocation (
+    keywordPath: Array<string | number>,
+    schema: FlagOrObject,
+    baseURI = ''
+  ): string | undefined {
+    let root = schema
+    let base = this.registry.getBaseURI(schema, baseURI)
+    let current: any = schema
+    let pointer: Array<string | number> = []
+    for (let i = 0; i < keywordPath.length; i++) {
+      const key = keywordPath[i]
+      if (key === this.refKeyword && i < keywordPath.length - 1 && typeof current?.[key] === 'string') {
+        const reference = this.registry.resolve(current[key], base, root)
+        if (reference == null) return undefined
+        const fragment = splitURIFragment(resolveURIReference(current[key], base))[1]
+        const decoded = decodeURIComponent(fragment)
+        if (decoded !== '' && !decoded.startsWith('/')) return undefined
+        root = reference.root
+        base = reference.baseURI
+        current = reference.schema
+        pointer = decoded.split('/').slice(1).map(
+          (token) => token.replace(/~1/g, '/').replace(/~0/g, '~')
+        )
+        continue
+      }
+      current = typeof current === 'object' && current != null ? current[key] : undefined
+      pointer.push(key)
+      if (typeof current === 'object' && current != null && this.registry.idKeyword in current) {
+        root = current
+        base = this.registry.getBaseURI(current, base)
+        pointer = []
+      }
+    }
+    if (base === '') return undefined
+    return `${base}#${createJSONPointer(pointer)}`
+  }
+
+  /**
+   * Creates an output unit for a single error or annotation.
+   * @function
+   * @param {string | undefined} keyword - reporting keyword
+   * @param {Array<string | number> | undefined} schemaPath - location of the reporting subschema
+   * @param {Array<string | number> | undefined} instancePath - location of the evaluated value
+   * @param {JSONSchemaOutputUnit} details - validity and error or annotation for the unit
+   * @param {FlagOrObject | undefined} schema - validated schema
+   * @param {string} baseURI - URI of the validated schema
+   * @returns {JSONSchemaOutputLeaf}
+   */
+  protected createLeaf (
+    keyword: string | undefined,
+    schemaPath: Array<string | number> | undefined,
+    instancePath: Array<string | number> = [],
+    details: JSONSchemaOutputUnit,
+    schema?: FlagOrObject,
+    baseURI = ''
+  ): JSONSchemaOutputLeaf {
+    const keywordPath = this.getKeywordPath(keyword, schemaPath)
+    return {
+      keywordPath,
+      instancePath,
+      unit: {
+        ...this.getLocations(keywordPath, instancePath, schema, baseURI),
+        ...details
+      }
+    }
+  }
+
+  /**
+   * Gets the location properties of an output unit.
+   * @function
+   * @param {Array<string | number>} keywordPath - path to the keyword
+   * @param {Array<string | number>} instancePath - path to the evaluated value
+   * @param {FlagOrObject | undefined} schema - validated schema
+   * @param {string} baseURI - URI of the validated schema
+   * @returns {Partial<JSONSchemaOutputUnit>}
+   */
+  protected getLocations (
+    keywordPath: Array<string | number>,
+    instancePath: Array<string | number>,
+    schema?: FlagOrObject,
+    baseURI = ''
+  ): Partial<JSONSchemaOutputUnit> {
+    const locations: Partial<JSONSchemaOutputUnit> = {
+      keywordLocation: createJSONPointer(keywordPath),
+      instanceLocation: createJSONPointer(instancePath)
+    }
+    if (schema != null) {
+      const absoluteLocation = this.getAbsoluteKeywordLocation(keywordPath, schema, baseURI)
+      if (absoluteLocation != null) {
+        locations.absoluteKeywordLocation = absoluteLocation
+      }
+    }
+    return locations
+  }
+
+  /**
+   * Groups units into a hierarchy that follows the schema's structure.
+   * @function
+   * @param {Array<string | number>} keywordPath - schema location of the group
+   * @param {JSONSchemaOutputLeaf[]} leaves - units within the group
+   * @param {boolean} condense - replace groups with a single member with that member
+   * @param {FlagOrObject | undefined} schema - validated schema
+   * @param {string} baseURI - URI of the validated schema
+   * @returns {JSONSchemaOutputUnit}
+   */
+  protected createNode (
+    keywordPath: Array<string | number>,
+    leaves: JSONSchemaOutputLeaf[],
+    condense: boolean,
+    schema?: FlagOrObject,
+    baseURI = ''
+  ): JSONSchemaOutputUnit {
+    const depth = keywordPath.length
+    const children: JSONSchemaOutputUnit[] = []
+    const groups: Array<[string | number, JSONSchemaOutputLeaf[]]> = []
+    for (const leaf of leaves) {
+      if (leaf.keywordPath.length <= depth) {
+        children.push(leaf.unit)
+        continue
+      }
+      const key = leaf.keywordPath[depth]
+      const group = groups.find((item) => item[0] === key)
+      if (group != null) {
+        group[1].push(leaf)
+      } else {
+        groups.push([key, [leaf]])
+      }
+    }
+    for (const [key, members] of groups) {
+      const child = members.length === 1 && (condense || members[0].keywordPath.length === depth + 1)
+        ? members[0].unit
+        : this.createNode(keywordPath.concat([key]), members, condense, schema, baseURI)
+      children.push(child)
+    }
+    if (condense && depth > 0 && children.length === 1) {
+      return children[0]
+    }
+    // The root unit always describes the whole value, even if every leaf is nested deeper.
+    const instancePath = depth > 0
+      ? getCommonPath(leaves.map((leaf) => leaf.instancePath))
+      : []
+    const node: JSONSchemaOutputUnit = {
+      valid: children.every((child) => child.valid),
+      ...this.getLocations(keywordPath, instancePath, schema, baseURI)
+    }
+    const errors = children.filter((child) => !child.valid)
+    const annotations = children.filter((child) => child.valid)
+    if (errors.length > 0) {
+      node.errors = errors
+    }
+    if (annotations.length > 0) {
+      node.annotations = annotations
+    }
+    return node
+  }
+}
+
+/**
+ * Finds the longest path all of the provided paths start with.
+ * @function
+ * @param {Array<Array<string | number>>} paths - paths to be compared
+ * @returns {Array<string | number>}
+ */
+export function getCommonPath (
+  paths: Array<Array<string | number>>
+): Array<string | number> {
+  if (paths.length < 1) return []
+  const results = paths[0].slice()
+  for (const path of paths) {
+    let length = 0
+    while (length < results.length && length < path.length && results[length] === path[length]) {
+      length++
+    }
+    results.length = length
+  }
+  return results
+}
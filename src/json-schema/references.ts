@@ -0,0 +1,297 @@
+import type { UntypedObject, ValueConstraint } from '../generic/coercion'
+import { type ErrorLog } from '../generic/validation'
+import {
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer
+} from '../generic/keywords'
+import type { FlagOrObject, JSONSchemaEnforcerContext } from './coercion'
+import { JSONSchemaBranchEnforcer } from './composition'
+
+/**
+ * Subschema found by resolving a reference.
+ * @interface
+ * @property {FlagOrObject} schema - target subschema
+ * @property {FlagOrObject} root - schema resource containing the target
+ * @property {string} baseURI - base URI of the containing resource
+ */
+export interface JSONSchemaReference {
+  schema: FlagOrObject
+  root: FlagOrObject
+  baseURI: string
+}
+
+/**
+ * Splits the fragment off a URI.
+ * @function
+ * @param {string} uri - URI to be split
+ * @returns {[string, string]}
+ */
+export function splitURIFragment (uri: string): [string, string] {
+  const index = uri.indexOf('#')
+  return index >= 0
+    ? [uri.slice(0, index), uri.slice(index + 1)]
+    : [uri, '']
+}
+
+/**
+ * Resolves a URI reference against a base URI, without any network access.
+ * @function
+ * @param {string} reference - URI to be resolved
+ * @param {string} base - URI the reference is relative to
+ * @returns {string}
+ */
+export function resolveURIReference (
+  reference: string,
+  base = ''
+): string {
+  let resolved: string | undefined
+  try {
+    resolved = new URL(reference, base !== '' ? base : undefined).href
+  } catch (error) {}
+  if (resolved == null) {
+    const [baseDocument] = splitURIFragment(base)
+    if (reference.startsWith('#')) {
+      resolved = baseDocument + reference
+    } else if (/^[a-z][a-z0-9+.-]*:/i.test(reference)) {
+      resolved = reference
+    } else {
+      const directoryIndex = baseDocument.lastIndexOf('/')
+      resolved = baseDocument.slice(0, directoryIndex + 1) + reference
+    }
+  }
+  return resolved.endsWith('#') ? resolved.slice(0, -1) : resolved
+}
+
+/**
+ * Finds the value at the end of a JSON pointer.
+ * @function
+ * @param {any} source - value the pointer starts from
+ * @param {string} pointer - JSON pointer, with or without a leading slash
+ * @returns {any}
+ */
+export function getJSONPointerTarget (
+  source: any,
+  pointer: string
+): any {
+  if (pointer === '') return source
+  const tokens = pointer.replace(/^\//, '').split('/')
+  let target = source
+  for (const token of tokens) {
+    if (typeof target !== 'object' || target == null) return undefined
+    const key = decodeURIComponent(token).replace(/~1/g, '/').replace(/~0/g, '~')
+    if (!Object.prototype.hasOwnProperty.call(target, key)) return undefined
+    target = target[key]
+  }
+  return target
+}
+
+/**
+ * Stores schemas by their ids and resolves references to them or their subschemas.
+ * @class
+ * @param {string} idKeyword - schema property for resource ids
+ * @param {string} anchorKeyword - schema property for plain name anchors
+ */
+export class JSONSchemaRegistry {
+  schemas: Record<string, FlagOrObject> = {}
+  idKeyword: string
+  anchorKeyword: string
+
+  constructor (
+    idKeyword = '$id',
+    anchorKeyword = '$anchor'
+  ) {
+    this.idKeyword = idKeyword
+    this.anchorKeyword = anchorKeyword
+  }
+
+  /**
+   * Stores a schema by it's id or the provided URI.
+   * @function
+   * @param {FlagOrObject} schema - schema to be stored
+   * @param {string | undefined} uri - URI to store it under if it doesn't have an id
+   * @param {string} idKeyword - schema property for the schema's id
+   */
+  add (
+    schema: FlagOrObject,
+    uri?: string,
+    idKeyword = this.idKeyword
+  ): void {
+    const id = typeof schema === 'object' ? schema[idKeyword] : undefined
+    const key = typeof id === 'string'
+      ? resolveURIReference(id, uri)
+      : uri
+    if (key != null) {
+      this.schemas[splitURIFragment(resolveURIReference(key))[0]] = schema
+    }
+  }
+
+  /**
+   * Gets the base URI for a schema, factoring in any id it may have.
+   * @function
+   * @param {FlagOrObject} schema - schema to be evaluated
+   * @param {string} base - base URI of the containing schema
+   * @param {string} idKeyword - schema property for the schema's id
+   * @returns {string}
+   */
+  getBaseURI (
+    schema: FlagOrObject,
+    base = '',
+    idKeyword = this.idKeyword
+  ): string {
+    const id = typeof schema === 'object' ? schema[idKeyword] : undefined
+    return typeof id === 'string'
+      ? splitURIFragment(resolveURIReference(id, base))[0]
+      : base
+  }
+
+  /**
+   * Finds the subschema a reference points to.
+   * @function
+   * @param {string} reference - URI of the target subschema
+   * @param {string} baseURI - base URI the reference is relative to
+   * @param {FlagOrObject | undefined} root - schema resource the reference appears in
+   * @param {string} idKeyword - schema property for the ids of embedded resources
+   * @returns {JSONSchemaReference | undefined}
+   */
+  resolve (
+    reference: string,
+    baseURI = '',
+    root?: FlagOrObject,
+    idKeyword = this.idKeyword
+  ): JSONSchemaReference | undefined {
+    const [documentURI, fragment] = splitURIFragment(resolveURIReference(reference, baseURI))
+    const document = this.getResource(documentURI, baseURI, root, idKeyword)
+    if (document == null) return undefined
+    if (fragment === '') {
+      return { schema: document, root: document, baseURI: documentURI }
+    }
+    const decoded = decodeURIComponent(fragment)
+    if (decoded.startsWith('/')) {
+      const schema = getJSONPointerTarget(document, decoded)
+      return typeof schema === 'boolean' || (typeof schema === 'object' && schema != null)
+        ? { schema, root: document, baseURI: documentURI }
+        : undefined
+    }
+    // Drafts before 2019-09 declare plain name anchors as fragment only ids.
+    const anchored = this.findSubschema(
+      document,
+      documentURI,
+      (schema, base) => base === documentURI &&
+        (schema[this.anchorKeyword] === decoded || schema[idKeyword] === `#${decoded}`),
+      idKeyword
+    )
+    if (anchored != null) {
+      return { schema: anchored, root: document, baseURI: documentURI }
+    }
+  }
+
+  /**
+   * Finds the schema resource with the provided URI.
+   * @function
+   * @param {string} uri - URI of the target resource, without a fragment
+   * @param {string} baseURI - base URI of the root schema
+   * @param {FlagOrObject | undefined} root - schema to check for embedded resources
+   * @param {string} idKeyword - schema property for the ids of embedded resources
+   * @returns {FlagOrObject | undefined}
+   */
+  getResource (
+    uri: string,
+    baseURI = '',
+    root?: FlagOrObject,
+    idKeyword = this.idKeyword
+  ): FlagOrObject | undefined {
+    const rootURI = splitURIFragment(baseURI)[0]
+    if (root != null && uri === rootURI) return root
+    if (Object.prototype.hasOwnProperty.call(this.schemas, uri)) return this.schemas[uri]
+    const sources: Array<[FlagOrObject, string]> = []
+    if (root != null) {
+      sources.push([root, rootURI])
+    }
+    for (const key in this.schemas) {
+      sources.push([this.schemas[key], key])
+    }
+    for (const [source, sourceURI] of sources) {
+      const match = this.findSubschema(source, sourceURI, (schema, base) => base === uri, idKeyword)
+      if (match != null) return match
+    }
+  }
+
+  /**
+   * Searches a schema and it's subschemas for the first match to the provided test.
+   * @function
+   * @param {FlagOrObject} schema - schema to be searched
+   * @param {string} baseURI - base URI of the provided schema's parent
+   * @param {(schema: UntypedObject, baseURI: string) => boolean} test - checks each subschema and it's base URI
+   * @param {string} idKeyword - schema property for the ids of embedded resources
+   * @returns {UntypedObject | undefined}
+   */
+  findSubschema (
+    schema: any,
+    baseURI: string,
+    test: (schema: UntypedObject, baseURI: string) => boolean,
+    idKeyword = this.idKeyword
+  ): UntypedObject | undefined {
+    if (typeof schema !== 'object' || schema == null) return undefined
+    if (Array.isArray(schema)) {
+      for (const item of schema) {
+        const match = this.findSubschema(item, baseURI, test, idKeyword)
+        if (match != null) return match
+      }
+      return undefined
+    }
+    const base = this.getBaseURI(schema, baseURI, idKeyword)
+    if (test(schema, base)) return schema
+    for (const key in schema) {
+      const match = this.findSubschema(schema[key], base, test, idKeyword)
+      if (match != null) return match
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema $ref keyword.
+ * References that can't be resolved produce an error with no coerce callback.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaRefRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = '$ref'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    const registry = context?.registry
+    if (typeof value === 'string' && context != null && factory != null && registry != null) {
+      const reference = registry.resolve(value, context.baseURI, context.rootSchema, context.dialect?.idKeyword)
+      if (reference == null) {
+        return new KeywordValueEnforcer(
+          this.keyword,
+          value,
+          () => false,
+          undefined,
+          150
+        )
+      }
+      const enforcer = factory.process(
+        reference.schema,
+        {
+          ...context,
+          rootSchema: reference.root,
+          baseURI: reference.baseURI
+        }
+      )
+      return new JSONSchemaBranchEnforcer(this.keyword, undefined, reference.schema, enforcer)
+    }
+  }
+}
@@ -0,0 +1,178 @@
+import type { UntypedObject, ValueConstraint } from '../generic/coercion'
+import { type ErrorLog } from '../generic/validation'
+import {
+  type KeywordEnforcerContext,
+  type KeywordError,
+  type KeywordRule,
+  KeywordValueEnforcer
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Splits a string into unicode code points, keeping surrogate pairs together.
+ * @function
+ * @param {string} text - string to be split
+ * @returns {string[]}
+ */
+export function getCodePoints (text: string): string[] {
+  return Array.from(text)
+}
+
+/**
+ * Handles the JSON schema minLength keyword.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string} padding - characters appended to short strings on coercion
+ */
+export class JSONSchemaMinLengthRule implements KeywordRule {
+  keyword: string
+  padding: string
+
+  constructor (
+    keyword = 'minLength',
+    padding = ' '
+  ) {
+    this.keyword = keyword
+    this.padding = padding
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: KeywordEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      const check = (target: string): boolean => getCodePoints(target).length >= limit
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        check,
+        (target: string) => this.pad(target, limit),
+        50
+      )
+    }
+  }
+
+  /**
+   * Adds padding characters to the end of a string until it reaches the target length.
+   * @function
+   * @param {string} text - string to be padded
+   * @param {number} length - minimum number of code points
+   * @returns {string}
+   */
+  pad (text: string, length: number): string {
+    const characters = getCodePoints(text)
+    const fill = getCodePoints(this.padding)
+    if (fill.length < 1) return text
+    for (let i = 0; characters.length < length; i++) {
+      characters.push(fill[i % fill.length])
+    }
+    return characters.join('')
+  }
+}
+
+/**
+ * Handles the JSON schema maxLength keyword.
+ * Coercion truncates long strings, unless the coercion policy forbids lossy changes.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaMaxLengthRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'maxLength'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const limit = schema[this.keyword]
+    if (typeof limit === 'number') {
+      const allowLossy = context?.coercionPolicy?.allowLossy ?? true
+      return new KeywordValueEnforcer(
+        this.keyword,
+        limit,
+        (target: string) => getCodePoints(target).length <= limit,
+        (target: string) => {
+          const characters = getCodePoints(target)
+          return characters.length > limit && allowLossy
+            ? characters.slice(0, Math.max(0, limit)).join('')
+            : target
+        },
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Handles the JSON schema pattern keyword.
+ * Failed matches can't be repaired automatically, so the resulting errors have no coerce callback.
+ * Patterns that aren't valid regular expressions fail every string, rather than dropping the constraint.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ */
+export class JSONSchemaPatternRule implements KeywordRule {
+  keyword: string
+
+  constructor (
+    keyword = 'pattern'
+  ) {
+    this.keyword = keyword
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: KeywordEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const pattern = schema[this.keyword]
+    if (typeof pattern === 'string') {
+      const expression = createSchemaRegExp(pattern)
+      return new KeywordValueEnforcer(
+        this.keyword,
+        pattern,
+        (target: string) => expression?.test(target) === true,
+        undefined,
+        50
+      )
+    }
+  }
+}
+
+/**
+ * Converts a JSON schema pattern to a regular expression, preferring unicode mode.
+ * @function
+ * @param {string} pattern - source of the regular expression
+ * @returns {RegExp | undefined}
+ */
+export function createSchemaRegExp (pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'u')
+  } catch (error) {}
+  try {
+    return new RegExp(pattern)
+  } catch (error) {}
+}
+
+/**
+ * Generates the standard set of JSON schema string keyword rules.
+ * @function
+ * @param {string} padding - characters used to fill strings that are too short
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaStringRules (
+  padding = ' '
+): KeywordRule[] {
+  return [
+    new JSONSchemaMinLengthRule('minLength', padding),
+    new JSONSchemaMaxLengthRule(),
+    new JSONSchemaPatternRule()
+  ]
+}
@@ -0,0 +1,337 @@
+import {
+  type UntypedObject,
+  type ValueConstraint,
+  coerceNested,
+  recordCoercionChange,
+  setOwnProperty,
+  traverseValue
+} from '../generic/coercion'
+import { type ErrorLog, isCollectingAllErrors } from '../generic/validation'
+import {
+  type KeywordAnnotation,
+  type KeywordEnforcerContext,
+  type KeywordError,
+  type KeywordRule,
+  SiblingKeywordsEnforcer,
+  countKeywordFailures,
+  getLocalAnnotationValues,
+  nestKeywordAnnotations,
+  nestKeywordErrors
+} from '../generic/keywords'
+import type { JSONSchemaEnforcerContext } from './coercion'
+
+/**
+ * Applies a subschema to the members of a value that no other keyword evaluated.
+ * Evaluated members are found through the annotations produced by validating the rest of the schema.
+ * Should the rest of the schema fail, no members are treated as unevaluated, leaving those errors to the other keywords.
+ * @class
+ * @implements ValueConstraint<any, ErrorLog<KeywordError>>
+ * @implements KeywordEnforcerContext
+ * @param {string} keyword - associated schema property
+ * @param {any} value - schema value for the target property
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} memberEnforcer - enforcer for unevaluated members
+ * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} remainderEnforcer - enforces the rest of the schema
+ * @param {string[]} evaluatingKeywords - keywords whose annotations list evaluated members
+ * @param {number} priority - relative importance of member errors without a priority of their own
+ */
+export class JSONSchemaUnevaluatedPropertiesEnforcer
+implements ValueConstraint<any, ErrorLog<KeywordError>>, KeywordEnforcerContext {
+  keyword: string
+  value: any
+  enforcers: Record<string, ValueConstraint<any, ErrorLog<Partial<KeywordError>>>> = {}
+  memberEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  remainderEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  evaluatingKeywords: string[]
+  priority: number
+  removeInvalid = true
+
+  constructor (
+    keyword: string,
+    value: any,
+    memberEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    remainderEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    evaluatingKeywords: string[],
+    priority = 50
+  ) {
+    this.keyword = keyword
+    this.value = value
+    this.memberEnforcer = memberEnforcer
+    this.remainderEnforcer = remainderEnforcer
+    this.evaluatingKeywords = evaluatingKeywords
+    this.priority = priority
+    this.enforcers[keyword] = memberEnforcer
+  }
+
+  /**
+   * Checks if the enforcer applies to the provided value.
+   * @function
+   * @param {any} target - value to be evaluated
+   * @returns {boolean}
+   */
+  appliesTo (target: any): boolean {
+    return typeof target === 'object' && target != null && !Array.isArray(target)
+  }
+
+  /**
+   * Lists the property names or indices of a value's members.
+   * @function
+   * @param {any} target - value to be evaluated
+   * @returns {Array<string | number>}
+   */
+  getKeys (target: any): Array<string | number> {
+    return Object.keys(target)
+  }
+
+  /**
+   * Lists the members of a value no other keyword evaluated.
+   * @function
+   * @param {any} target - value to be evaluated
+   * @returns {Array<string | number>}
+   */
+  getUnevaluatedKeys (target: any): Array<string | number> {
+    const validation = this.remainderEnforcer.validate(target)
+    if (countKeywordFailures(validation) > 0) return []
+    const evaluated: Array<string | number> = []
+    for (const value of getLocalAnnotationValues(validation.annotations, this.evaluatingKeywords)) {
+      if (Array.isArray(value)) {
+        evaluated.push(...value)
+      }
+    }
+    return this.getKeys(target).filter((key) => !evaluated.includes(key))
+  }
+
+  validate (target: any): ErrorLog<KeywordError, KeywordAnnotation> {
+    if (!this.appliesTo(target)) return { errors: [] }
+    const keys = this.getUnevaluatedKeys(target)
+    return traverseValue(target, () => {
+      let annotations: KeywordAnnotation[] = []
+      let errors: KeywordError[] = []
+      for (const key of keys) {
+        const validation = this.memberEnforcer.validate(target[key])
+        if (validation.errors.length > 0) {
+          errors = errors.concat(
+            nestKeywordErrors(
+              validation.errors,
+              key,
+              {
+                keyword: this.keyword,
+                value: this.value,
+                target: target[key],
+                priority: this.priority,
+                coerce: (value: any) => this.coerce(value)
+              },
+              [this.keyword]
+            )
+          )
+          if (countKeywordFailures(validation) > 0) {
+            if (!isCollectingAllErrors()) break
+            continue
+          }
+        }
+        annotations = annotations.concat(nestKeywordAnnotations(validation.annotations, key, [this.keyword]))
+      }
+      if (countKeywordFailures({ errors }) > 0) {
+        return { errors }
+      }
+      annotations.unshift({
+        keyword: this.keyword,
+        value: keys,
+        schemaPath: [this.keyword]
+      })
+      return { errors, annotations }
+    })
+  }
+
+  /**
+   * Coerces the unevaluated members of a value.
+   * Invalid members the subschema can't coerce are removed, unless removeInvalid is turned off.
+   * @function
+   * @param {any} target - value to be coerced
+   * @returns {any}
+   */
+  coerce (target: any): any {
+    if (!this.appliesTo(target)) return target
+    const keys = this.getUnevaluatedKeys(target)
+    if (keys.length < 1) return target
+    return traverseValue(target, () => {
+      const results: UntypedObject = {}
+      for (const key of Object.keys(target)) {
+        if (keys.includes(key)) {
+          const member = this.coerceMember(key, target[key])
+          if (member.length > 0) {
+            setOwnProperty(results, key, member[0])
+          }
+        } else {
+          setOwnProperty(results, key, target[key])
+        }
+      }
+      return results
+    })
+  }
+
+  /**
+   * Coerces a single unevaluated member.
+   * @function
+   * @param {string | number} key - property name or index of the member
+   * @param {any} value - member to be coerced
+   * @returns {any[]} an empty list if the member should be removed, else a list containing the coerced member
+   */
+  coerceMember (key: string | number, value: any): any[] {
+    const coerce = this.memberEnforcer.coerce
+    if (coerce != null) {
+      return [coerceNested(key, () => coerce.call(this.memberEnforcer, value))]
+    }
+    if (this.removeInvalid && countKeywordFailures(this.memberEnforcer.validate(value)) > 0) {
+      recordCoercionChange({
+        keyword: this.keyword,
+        instancePath: [key],
+        before: value,
+        after: undefined,
+        reason: 'removed unevaluated member'
+      })
+      return []
+    }
+    return [value]
+  }
+}
+
+/**
+ * Applies a subschema to the items of an array that no other keyword evaluated.
+ * @class
+ * @extends JSONSchemaUnevaluatedPropertiesEnforcer
+ */
+export class JSONSchemaUnevaluatedItemsEnforcer extends JSONSchemaUnevaluatedPropertiesEnforcer {
+  appliesTo (target: any): boolean {
+    return Array.isArray(target)
+  }
+
+  getKeys (target: any): Array<string | number> {
+    return Array.from(target, (item, index) => index)
+  }
+
+  coerce (target: any): any {
+    if (!this.appliesTo(target)) return target
+    const keys = this.getUnevaluatedKeys(target)
+    if (keys.length < 1) return target
+    return traverseValue(target, () => {
+      const results: any[] = []
+      for (let i = 0; i < target.length; i++) {
+        if (keys.includes(i)) {
+          results.push(...this.coerceMember(i, target[i]))
+        } else {
+          results.push(target[i])
+        }
+      }
+      return results
+    })
+  }
+}
+
+/**
+ * Handles the JSON schema unevaluatedProperties keyword.
+ * The rest of the schema is enforced through the enforcers of it's other keywords.
+ * The default keyword is left out by default, as it's enforcer checks the default against the rest of the schema, this keyword included.
+ * @class
+ * @implements KeywordRule
+ * @param {string} keyword - associated schema property
+ * @param {string[]} evaluatingKeywords - keywords whose annotations list evaluated properties
+ * @param {string[]} excludedKeywords - keywords left out when evaluating the rest of the schema
+ */
+export class JSONSchemaUnevaluatedPropertiesRule implements KeywordRule {
+  keyword: string
+  evaluatingKeywords: string[]
+  excludedKeywords: string[]
+
+  constructor (
+    keyword = 'unevaluatedProperties',
+    evaluatingKeywords = ['properties', 'patternProperties', 'additionalProperties', keyword],
+    excludedKeywords = [keyword, 'unevaluatedItems', 'default']
+  ) {
+    this.keyword = keyword
+    this.evaluatingKeywords = evaluatingKeywords
+    this.excludedKeywords = excludedKeywords
+  }
+
+  getEnforcerFor (
+    schema: UntypedObject,
+    context?: JSONSchemaEnforcerContext
+  ): ValueConstraint<any, ErrorLog<KeywordError>> | undefined {
+    const value = schema[this.keyword]
+    const factory = context?.subschemaFactory
+    if (value !== undefined && context != null && factory != null) {
+      const enforcer = this.createEnforcer(
+        value,
+        factory.process(value, context),
+        new SiblingKeywordsEnforcer(context.enforcers, this.excludedKeywords)
+      )
+      enforcer.removeInvalid = context?.coercionPolicy?.allowLossy ?? true
+      return enforcer
+    }
+  }
+
+  /**
+   * Creates the enforcer for this rule.
+   * @function
+   * @param {any} value - schema value for the target property
+   * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} memberEnforcer - enforcer for unevaluated members
+   * @param {ValueConstraint<any, ErrorLog<Partial<KeywordError>>>} remainderEnforcer - enforces the rest of the schema
+   * @returns {JSONSchemaUnevaluatedPropertiesEnforcer}
+   */
+  createEnforcer (
+    value: any,
+    memberEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    remainderEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  ): JSONSchemaUnevaluatedPropertiesEnforcer {
+    return new JSONSchemaUnevaluatedPropertiesEnforcer(
+      this.keyword,
+      value,
+      memberEnforcer,
+      remainderEnforcer,
+      this.evaluatingKeywords
+    )
+  }
+}
+
+/**
+ * Handles the JSON schema unevaluatedItems keyword.
+ * @class
+ * @extends JSONSchemaUnevaluatedPropertiesRule
+ * @param {string} keyword - associated schema property
+ * @param {string[]} evaluatingKeywords - keywords whose annotations list evaluated items
+ * @param {string[]} excludedKeywords - keywords left out when evaluating the rest of the schema
+ */
+export class JSONSchemaUnevaluatedItemsRule extends JSONSchemaUnevaluatedPropertiesRule {
+  constructor (
+    keyword = 'unevaluatedItems',
+    evaluatingKeywords = ['prefixItems', 'items', 'additionalItems', 'contains', keyword],
+    excludedKeywords = [keyword, 'unevaluatedProperties', 'default']
+  ) {
+    super(keyword, evaluatingKeywords, excludedKeywords)
+  }
+
+  createEnforcer (
+    value: any,
+    memberEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>,
+    remainderEnforcer: ValueConstraint<any, ErrorLog<Partial<KeywordError>>>
+  ): JSONSchemaUnevaluatedPropertiesEnforcer {
+    return new JSONSchemaUnevaluatedItemsEnforcer(
+      this.keyword,
+      value,
+      memberEnforcer,
+      remainderEnforcer,
+      this.evaluatingKeywords
+    )
+  }
+}
+
+/**
+ * Generates the standard set of JSON schema unevaluated keyword rules.
+ * @function
+ * @returns {KeywordRule[]}
+ */
+export function createJSONSchemaUnevaluatedRules (): KeywordRule[] {
+  return [
+    new JSONSchemaUnevaluatedPropertiesRule(),
+    new JSONSchemaUnevaluatedItemsRule()
+  ]
+}
@@ -5,7 +5,22 @@ import {
   SteppedNumberEnforcer,
   ObjectEnforcer,
   StringEnforcer,
-  StrictEqualityEnforcer
+  StrictEqualityEnforcer,
+  DateEnforcer,
+  BigIntEnforcer,
+  MapEnforcer,
+  SetEnforcer,
+  RegExpEnforcer,
+  Uint8ArrayEnforcer,
+  isEquivalentTo,
+  getCoercionReport,
+  CoercionPolicy,
+  LOSSLESS_COERCION_POLICY,
+  createScalarParsingProfile,
+  parseNumberText,
+  splitDelimitedText,
+  parseKeyValueText,
+  CyclicValueError
 } from "../src/index"
 
 describe("ArrayEnforcer", () => {
@@ -52,6 +67,10 @@ describe("BooleanEnforcer", () => {
     test("should apply typecasting to other values", () => {
       expect(enforcer.coerce(0)).toEqual(false)
     })
+    test("should read boolean literals without a parsing profile", () => {
+      expect(enforcer.coerce('false')).toEqual(false)
+      expect(enforcer.coerce('true')).toEqual(true)
+    })
     test("should unwrap using value property", () => {
       expect(enforcer.coerce({ _value: false })).toEqual(false)
     })
@@ -178,3 +197,225 @@ describe("StrictEqualityEnforcer", () => {
     })
   })
 })
+
+describe("DateEnforcer", () => {
+  const enforcer = new DateEnforcer()
+  describe("validate", () => {
+    test("should exclude invalid dates and date strings", () => {
+      expect(enforcer.validate(new Date(0))).toEqual(true)
+      expect(enforcer.validate(new Date(NaN))).toEqual(false)
+      expect(enforcer.validate('2020-01-01')).toEqual(false)
+    })
+  })
+  describe("coerce", () => {
+    test("should read ISO strings and epoch times", () => {
+      expect(enforcer.coerce('2020-01-02T03:04:05.000Z').toISOString()).toBe('2020-01-02T03:04:05.000Z')
+      expect(enforcer.coerce(86400000).getTime()).toBe(86400000)
+      expect(enforcer.coerce('86400000').getTime()).toBe(86400000)
+    })
+    test("should apply default value for unreadable values", () => {
+      expect(new DateEnforcer(new Date(5)).coerce('soon').getTime()).toBe(5)
+      expect(enforcer.coerce(undefined).getTime()).toBe(0)
+    })
+  })
+})
+
+describe("BigIntEnforcer", () => {
+  const enforcer = new BigIntEnforcer()
+  test("should convert numeric strings and integers", () => {
+    expect(enforcer.coerce('12345678901234567890')).toBe(BigInt('12345678901234567890'))
+    expect(enforcer.coerce(7)).toBe(BigInt(7))
+    expect(enforcer.coerce(true)).toBe(BigInt(1))
+  })
+  test("should only round numbers when lossy conversions are allowed", () => {
+    expect(enforcer.coerce(2.6)).toBe(BigInt(3))
+    const strictEnforcer = new BigIntEnforcer()
+    strictEnforcer.policy = LOSSLESS_COERCION_POLICY
+    expect(strictEnforcer.coerce(2.6)).toBe(2.6)
+    expect(strictEnforcer.coerce('x')).toBe('x')
+  })
+})
+
+describe("MapEnforcer", () => {
+  const enforcer = new MapEnforcer()
+  test("should convert entries and objects", () => {
+    expect(enforcer.coerce([['a', 1], [2, 'b']])).toEqual(new Map<any, any>([['a', 1], [2, 'b']]))
+    expect(enforcer.coerce({ a: 1 })).toEqual(new Map([['a', 1]]))
+    expect(enforcer.coerce('{"a":1}')).toEqual(new Map([['a', 1]]))
+  })
+  test("should apply default value for other values", () => {
+    expect(enforcer.coerce(3)).toEqual(new Map())
+  })
+})
+
+describe("SetEnforcer", () => {
+  const enforcer = new SetEnforcer()
+  test("should convert arrays and wrap other values", () => {
+    expect(enforcer.coerce([1, 2, 2])).toEqual(new Set([1, 2]))
+    expect(enforcer.coerce('[1]')).toEqual(new Set([1]))
+    expect(enforcer.coerce('a')).toEqual(new Set(['a']))
+  })
+  test("should use the text format on non-JSON strings", () => {
+    const formattedEnforcer = new SetEnforcer()
+    formattedEnforcer.textFormat = { delimiter: ',', trim: true }
+    expect(formattedEnforcer.coerce('a, b, a')).toEqual(new Set(['a', 'b']))
+  })
+  test("should not drop duplicates when lossy conversions are disallowed", () => {
+    const strictEnforcer = new SetEnforcer()
+    strictEnforcer.policy = LOSSLESS_COERCION_POLICY
+    expect(strictEnforcer.coerce([1, 1])).toEqual([1, 1])
+  })
+})
+
+describe("RegExpEnforcer", () => {
+  const enforcer = new RegExpEnforcer()
+  test("should read literals and patterns", () => {
+    expect(enforcer.coerce('/a+/gi')).toEqual(/a+/gi)
+    expect(enforcer.coerce('^b$')).toEqual(/^b$/)
+  })
+  test("should apply default value for invalid patterns", () => {
+    expect(new RegExpEnforcer(/x/).coerce('(')).toEqual(/x/)
+  })
+})
+
+describe("Uint8ArrayEnforcer", () => {
+  const enforcer = new Uint8ArrayEnforcer()
+  test("should convert byte lists and base64 strings", () => {
+    expect(enforcer.coerce([1, 2, 255])).toEqual(new Uint8Array([1, 2, 255]))
+    expect(enforcer.coerce('AQL/')).toEqual(new Uint8Array([1, 2, 255]))
+  })
+  test("should only truncate bytes when lossy conversions are allowed", () => {
+    expect(enforcer.coerce([256])).toEqual(new Uint8Array([0]))
+    const strictEnforcer = new Uint8ArrayEnforcer()
+    strictEnforcer.policy = LOSSLESS_COERCION_POLICY
+    expect(strictEnforcer.coerce([256])).toEqual([256])
+  })
+})
+
+describe("isEquivalentTo", () => {
+  test("should match objects with equivalent properties", () => {
+    expect(isEquivalentTo({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toEqual(true)
+    expect(isEquivalentTo({ a: 1 }, { a: 1, b: 2 })).toEqual(false)
+  })
+  test("should distinguish arrays from objects", () => {
+    expect(isEquivalentTo([], {})).toEqual(false)
+  })
+  test("should throw on cyclic values", () => {
+    const cyclic: Record<string, any> = {}
+    cyclic.self = cyclic
+    expect(() => isEquivalentTo(cyclic, { self: {} })).toThrow(CyclicValueError)
+    expect(isEquivalentTo(cyclic, cyclic)).toEqual(true)
+    const shared = { a: 1 }
+    expect(isEquivalentTo([shared, shared], [{ a: 1 }, { a: 1 }])).toEqual(true)
+  })
+  test("should compare the contents of dates, maps, and sets", () => {
+    expect(isEquivalentTo(new Date(5), new Date(5))).toEqual(true)
+    expect(isEquivalentTo(new Date(5), new Date(6))).toEqual(false)
+    expect(isEquivalentTo(new Map([['a', 1]]), new Map([['a', 1]]))).toEqual(true)
+    expect(isEquivalentTo(new Map([['a', 1]]), new Map([['a', 2]]))).toEqual(false)
+    expect(isEquivalentTo(new Set([1]), [1])).toEqual(false)
+  })
+})
+
+describe("getCoercionReport", () => {
+  test("should describe type conversions", () => {
+    const report = getCoercionReport(new SteppedNumberEnforcer(0, 1), '3.7')
+    expect(report.value).toBe(4)
+    expect(report.changes).toEqual([
+      { instancePath: [], before: '3.7', after: 3.7, reason: 'converted to number' },
+      { instancePath: [], before: 3.7, after: 4, reason: 'rounded to a multiple of 1' }
+    ])
+  })
+  test("should skip changes that leave the value as is", () => {
+    expect(getCoercionReport(new StringEnforcer(), 'a').changes).toEqual([])
+    expect(getCoercionReport(new ArrayEnforcer(), 'x').changes[0].reason).toBe('wrapped in array')
+  })
+})
+
+describe("CoercionPolicy", () => {
+  test("should block disallowed conversions", () => {
+    const enforcer = new StringEnforcer()
+    enforcer.policy = new CoercionPolicy({ string: ['number'] })
+    expect(enforcer.coerce(1)).toBe('1')
+    expect(enforcer.coerce({ a: 1 })).toEqual({ a: 1 })
+    expect(enforcer.coerce(undefined)).toBe(undefined)
+  })
+  test("should block lossy conversions", () => {
+    const enforcer = new SteppedNumberEnforcer(0, 1)
+    enforcer.policy = LOSSLESS_COERCION_POLICY
+    expect(enforcer.coerce('3')).toBe(3)
+    expect(enforcer.coerce('3.7')).toBe('3.7')
+    expect(enforcer.coerce('x')).toBe('x')
+    expect(enforcer.coerce('')).toBe('')
+    expect(enforcer.coerce([7])).toEqual([7])
+    const booleanEnforcer = new BooleanEnforcer()
+    booleanEnforcer.policy = LOSSLESS_COERCION_POLICY
+    expect(booleanEnforcer.coerce(1)).toBe(true)
+    expect(booleanEnforcer.coerce('no')).toBe('no')
+  })
+})
+
+describe("ScalarParsingProfile", () => {
+  test("should read true and false words", () => {
+    const enforcer = new BooleanEnforcer()
+    enforcer.parsingProfile = createScalarParsingProfile()
+    expect(enforcer.coerce('false')).toBe(false)
+    expect(enforcer.coerce(' Off ')).toBe(false)
+    expect(enforcer.coerce('yes')).toBe(true)
+    expect(enforcer.coerce('0')).toBe(false)
+  })
+  test("should read localized numbers", () => {
+    const enforcer = new NumberEnforcer()
+    enforcer.parsingProfile = createScalarParsingProfile('de')
+    expect(enforcer.coerce('1.234,5')).toBe(1234.5)
+    enforcer.parsingProfile = createScalarParsingProfile('fr')
+    expect(enforcer.coerce('1 234,5 €')).toBe(1234.5)
+    enforcer.parsingProfile = createScalarParsingProfile('en-US-u-ca-gregory')
+    expect(enforcer.coerce('1,234.5')).toBe(1234.5)
+  })
+  test("should only accept group separators between digit groups", () => {
+    const profile = createScalarParsingProfile()
+    expect(parseNumberText('1,234,567.25', profile)).toBe(1234567.25)
+    expect(parseNumberText('1,5', profile)).toBeNaN()
+    expect(parseNumberText('12,34', profile)).toBeNaN()
+    expect(parseNumberText('1.2,345', profile)).toBeNaN()
+    expect(parseNumberText('1.2.3', createScalarParsingProfile('de'))).toBeNaN()
+  })
+  test("should strip currency and percent symbols", () => {
+    const enforcer = new NumberEnforcer()
+    enforcer.parsingProfile = createScalarParsingProfile()
+    expect(enforcer.coerce('$12')).toBe(12)
+    expect(enforcer.coerce('-$1,200.50')).toBe(-1200.5)
+    expect(enforcer.coerce('15%')).toBe(15)
+  })
+})
+
+describe("DelimitedTextFormat", () => {
+  test("should split and trim delimited text", () => {
+    const enforcer = new ArrayEnforcer()
+    enforcer.textFormat = { delimiter: ',', trim: true }
+    expect(enforcer.coerce('a, b, c')).toEqual(['a', 'b', 'c'])
+    expect(enforcer.coerce('[1]')).toEqual([1])
+    expect(enforcer.coerce('')).toEqual([])
+  })
+  test("should respect quotes", () => {
+    const format = { delimiter: ',', trim: true, quotes: ['"'] }
+    expect(splitDelimitedText('"a, b", "say ""hi""", c', format)).toEqual(['a, b', 'say "hi"', 'c'])
+    expect(splitDelimitedText("don't, stop, 'go, now'", { delimiter: ',', trim: true, quotes: ["'"] })).toEqual([
+      "don't",
+      'stop',
+      'go, now'
+    ])
+  })
+  test("should read key value pairs", () => {
+    const enforcer = new ObjectEnforcer()
+    enforcer.textFormat = { delimiter: ';', trim: true }
+    expect(enforcer.coerce('k1=v1; k2=v2=x; flag')).toEqual({ k1: 'v1', k2: 'v2=x', flag: '' })
+  })
+  test("should nest keys by path", () => {
+    const format = { delimiter: '&', pathSeparator: '.' }
+    expect(parseKeyValueText('user.name=Al&user.age=3&__proto__.x=1', format)).toEqual({
+      user: { name: 'Al', age: '3' }
+    })
+  })
+})
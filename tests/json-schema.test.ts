@@ -7,6 +7,32 @@ import {
   SchemaOptionsFactory,
   ErrorLog,
   KeywordError,
+  JSONSchemaMinLengthRule,
+  JSONSchemaFormatRule,
+  KeywordErrorLogValidationParser,
+  KeywordRulesEnforcer,
+  TypeKeywordEnforcer,
+  JSONSchemaItemsEnforcer,
+  JSONSchemaTypeRule,
+  SequentialKeywordEnforcerFactory,
+  createJSONSchemaObjectRules,
+  JSONSchemaRegistry,
+  CyclicValueError,
+  JSONSchemaDialect,
+  JSON_SCHEMA_DRAFT_URIS,
+  KeywordValueEnforcer,
+  JSONSchemaAnnotationCollector,
+  JSONSchemaOutputFormatter,
+  groupErrorsByInstancePath,
+  createJSONSchemaMessageFormatter,
+  collectAllErrors,
+  getCoercionReport,
+  reportCoercion,
+  LOSSLESS_COERCION_POLICY,
+  STRICT_COERCION_POLICY,
+  createScalarParsingProfile,
+  createJSONSchemaExtendedTypeRules,
+  getJSONPointerTarget,
   ANY_VALUE_JSON_SCHEMA
 } from "../src/index"
 
@@ -40,6 +66,1377 @@ describe("JSONSchemaEnforcerFactory", () => {
   })
 })
 
+describe("numeric keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should validate minimum and maximum", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', minimum: 0, maximum: 10 })
+    expect(enforcer.validate(5).errors.length).toBe(0)
+    expect(enforcer.validate(42).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'maximum',
+      value: 10,
+      target: 42
+    }))
+  })
+  test("should clamp values to range on coercion", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', minimum: 0, maximum: 10 })
+    expect(enforcer.coerce?.(42)).toBe(10)
+    expect(enforcer.coerce?.(-3)).toBe(0)
+    expect(enforcer.coerce?.(7)).toBe(7)
+  })
+  test("should treat exclusive limits as out of range", () => {
+    const enforcer = enforcerFactory.process({ type: 'integer', exclusiveMinimum: 0, exclusiveMaximum: 5 })
+    expect(enforcer.validate(0).errors[0]?.keyword).toBe('exclusiveMinimum')
+    expect(enforcer.validate(5).errors[0]?.keyword).toBe('exclusiveMaximum')
+    expect(enforcer.coerce?.(-2)).toBe(1)
+    expect(enforcer.coerce?.(9)).toBe(4)
+  })
+  test("should snap to multipleOf within range", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', multipleOf: 0.5, maximum: 10.2 })
+    expect(enforcer.validate(1.5).errors.length).toBe(0)
+    expect(enforcer.validate(1.2).errors[0]?.keyword).toBe('multipleOf')
+    expect(enforcer.coerce?.(1.2)).toBe(1)
+    expect(enforcer.coerce?.(10.2)).toBe(10)
+  })
+  test("should tolerate floating point multiples", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', multipleOf: 0.1 })
+    expect(enforcer.validate(0.3).errors.length).toBe(0)
+  })
+})
+
+describe("string keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should count code points for length checks", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', maxLength: 2 })
+    expect(enforcer.validate('😀😀').errors.length).toBe(0)
+    expect(enforcer.validate('abc').errors[0]).toEqual(expect.objectContaining({
+      keyword: 'maxLength',
+      value: 2,
+      target: 'abc'
+    }))
+  })
+  test("should truncate long strings and pad short ones", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', minLength: 3, maxLength: 4 })
+    expect(enforcer.coerce?.('😀😀😀😀😀')).toEqual('😀😀😀😀')
+    expect(enforcer.coerce?.('a')).toEqual('a  ')
+  })
+  test("should use custom padding", () => {
+    const rule = new JSONSchemaMinLengthRule('minLength', '0')
+    const enforcer = rule.getEnforcerFor({ minLength: 3 })
+    expect(enforcer?.coerce?.('7')).toEqual('700')
+  })
+  test("should report pattern failures without a coerce callback", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', pattern: '^[a-z]+$' })
+    expect(enforcer.validate('abc').errors.length).toBe(0)
+    const error = enforcer.validate('ABC').errors[0]
+    expect(error?.keyword).toBe('pattern')
+    expect(error?.coerce).toBeUndefined()
+  })
+  test("should fail strings checked against invalid patterns", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', pattern: '(unclosed' })
+    expect(enforcer.validate('(unclosed').errors[0]?.keyword).toBe('pattern')
+    expect(enforcer.validate(1).errors[0]?.keyword).toBe('type')
+  })
+})
+
+describe("format keyword", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should validate built-in formats", () => {
+    const samples: Record<string, [string, string]> = {
+      date: ['2024-02-29', '2023-02-29'],
+      time: ['12:30:00Z', '25:00:00Z'],
+      'date-time': ['2024-01-01T12:30:00.5+02:00', '2024-01-01 12:30'],
+      duration: ['P1DT2H', 'P1D2H'],
+      email: ['user@example.com', 'user@@example.com'],
+      hostname: ['api.example.com', '-bad-.com'],
+      ipv4: ['192.168.0.1', '256.1.1.1'],
+      ipv6: ['::ffff:192.168.0.1', '1::2::3'],
+      uri: ['https://example.com/a?b=c', '/relative'],
+      'uri-reference': ['/relative#frag', 'has space'],
+      uuid: ['123e4567-e89b-12d3-a456-426614174000', '123e4567'],
+      regex: ['^a+$', '(unclosed'],
+      'json-pointer': ['/a~1b/0', 'a/b']
+    }
+    for (const format in samples) {
+      const enforcer = enforcerFactory.process({ type: 'string', format })
+      const [valid, invalid] = samples[format]
+      expect([format, enforcer.validate(valid).errors.length]).toEqual([format, 0])
+      expect([format, enforcer.validate(invalid).errors[0]?.keyword]).toEqual([format, 'format'])
+    }
+  })
+  test("should normalize dates and epoch numbers", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', format: 'date-time' })
+    expect(enforcer.coerce?.(new Date(Date.UTC(2024, 0, 2)))).toEqual('2024-01-02T00:00:00.000Z')
+    expect(enforcer.coerce?.(0)).toEqual('1970-01-01T00:00:00.000Z')
+    const dateEnforcer = enforcerFactory.process({ type: 'string', format: 'date' })
+    expect(dateEnforcer.coerce?.(0)).toEqual('1970-01-01')
+    const forkEnforcer = enforcerFactory.process({ type: ['string', 'null'], format: 'date' })
+    expect(forkEnforcer.coerce?.(0)).toEqual('1970-01-01')
+  })
+  test("should leave values that don't need to be strings unchanged", () => {
+    expect(enforcerFactory.process({ format: 'date' }).coerce?.(5)).toBe(5)
+    expect(enforcerFactory.process({ type: ['string', 'number'], format: 'date' }).coerce?.(5)).toBe(5)
+    expect(enforcerFactory.process({ type: 'string', format: 'date' }).coerce?.('2024-01-02')).toBe('2024-01-02')
+  })
+  test("should support custom formats", () => {
+    const rule = new JSONSchemaFormatRule()
+    rule.formats.sku = {
+      validate: (value) => /^[A-Z]{3}-\d{4}$/.test(value),
+      normalize: (value) => typeof value === 'string' ? value.toUpperCase() : undefined
+    }
+    const enforcer = rule.getEnforcerFor({ format: 'sku' })
+    expect(enforcer?.validate('abc-1234').errors.length).toBe(1)
+    expect(enforcer?.coerce?.('abc-1234')).toEqual('ABC-1234')
+  })
+  test("should ignore unknown formats", () => {
+    for (const format of ['unknown', 'constructor', 'toString']) {
+      const enforcer = enforcerFactory.process({ type: 'string', format })
+      expect(enforcer.validate('x').errors).toEqual([])
+    }
+  })
+  test("should report annotation only failures without failing validation", () => {
+    const annotatingFactory = new JSONSchemaEnforcerFactory()
+    const formatIndex = annotatingFactory.keywordHandler.rules.findIndex(rule => rule.keyword === 'format')
+    annotatingFactory.keywordHandler.rules[formatIndex] = new JSONSchemaFormatRule('format', undefined, false)
+    const enforcer = annotatingFactory.process({ type: 'string', format: 'email' })
+    const validation = enforcer.validate('nope')
+    expect(validation.errors[0]).toEqual(expect.objectContaining({
+      keyword: 'format',
+      priority: -1
+    }))
+    expect(new KeywordErrorLogValidationParser().isValid(validation)).toBe(true)
+  })
+})
+
+describe("array item keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should report which item failed", () => {
+    const enforcer = enforcerFactory.process({ type: 'array', items: { type: 'integer' } })
+    expect(enforcer.validate([1, 2]).errors.length).toBe(0)
+    expect(enforcer.validate([1, 'x']).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'type',
+      value: 'integer',
+      target: 'x',
+      instancePath: [1]
+    }))
+  })
+  test("should coerce each item", () => {
+    const enforcer = enforcerFactory.process({ type: 'array', items: { type: 'integer' } })
+    expect(enforcer.coerce?.(['1', 2.2])).toEqual([1, 2])
+  })
+  test("should store item enforcers by keyword and index", () => {
+    const enforcer = enforcerFactory.process({ type: 'array', prefixItems: [{ type: 'string' }] }) as KeywordRulesEnforcer
+    const typeEnforcer = enforcer.enforcers.type as TypeKeywordEnforcer
+    const itemsEnforcer = typeEnforcer.rulesEnforcer?.enforcers.prefixItems as JSONSchemaItemsEnforcer
+    expect(itemsEnforcer.enforcers['0']).toBeDefined()
+  })
+  test("should pad and trim tuples", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { type: 'number' }],
+      items: false
+    })
+    expect(enforcer.validate(['a', 1, true]).errors[0]?.instancePath).toEqual([2])
+    expect(enforcer.coerce?.(['a'])).toEqual(['a', 0])
+    expect(enforcer.coerce?.(['a', '2', true])).toEqual(['a', 2])
+    const prefixOnly = enforcerFactory.process({ type: 'array', prefixItems: [{ type: 'string' }, {}] })
+    expect(prefixOnly.coerce?.(['a'])).toStrictEqual(['a'])
+  })
+  test("should remove invalid items in the middle of a tuple", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      prefixItems: [{ type: 'string' }, { not: { type: 'number' } }, { type: 'number' }]
+    })
+    const report = getCoercionReport(enforcer, ['a', 1, 'b', '3'])
+    expect(report.value).toEqual(['a', 'b', 3])
+    expect(report.changes.map((change) => [change.reason, change.instancePath])).toEqual([
+      ['removed invalid item', [1]],
+      ['converted to number', [2]]
+    ])
+    expect(enforcer.validate(report.value).errors.length).toBe(0)
+  })
+  test("should apply items after prefix items", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      prefixItems: [{ type: 'string' }],
+      items: { type: 'boolean' }
+    })
+    expect(enforcer.validate(['a', true]).errors.length).toBe(0)
+    expect(enforcer.validate(['a', 'b']).errors[0]?.instancePath).toEqual([1])
+  })
+  test("should nest item paths", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      items: { type: 'array', items: { type: 'number' } }
+    })
+    expect(enforcer.validate([[1], [2, 'x']]).errors[0]?.instancePath).toEqual([1, 1])
+    expect(enforcer.coerce?.([[1], [2, '3']])).toEqual([[1], [2, 3]])
+  })
+})
+
+describe("array cardinality keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should enforce item counts", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      items: { type: 'string', default: 'x' },
+      minItems: 2,
+      maxItems: 3
+    })
+    expect(enforcer.validate(['a']).errors[0]?.keyword).toBe('minItems')
+    expect(enforcer.validate(['a', 'b', 'c', 'd']).errors[0]?.keyword).toBe('maxItems')
+    expect(enforcer.coerce?.(['a'])).toEqual(['a', 'x'])
+    expect(enforcer.coerce?.(['a', 'b', 'c', 'd'])).toEqual(['a', 'b', 'c'])
+  })
+  test("should remove duplicates for unique items", () => {
+    const enforcer = enforcerFactory.process({ type: 'array', uniqueItems: true })
+    expect(enforcer.validate([{ a: 1 }, { a: 1 }]).errors[0]?.keyword).toBe('uniqueItems')
+    expect(enforcer.coerce?.([1, { a: 1 }, 1, { a: 1 }])).toEqual([1, { a: 1 }])
+  })
+  test("should name the unmatched contains subschema", () => {
+    const contains = { type: 'number' }
+    const enforcer = enforcerFactory.process({ type: 'array', contains })
+    expect(enforcer.validate(['a', 1]).errors.length).toBe(0)
+    expect(enforcer.validate(['a']).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'contains',
+      value: contains
+    }))
+    expect(enforcer.coerce?.(['a'])).toEqual(['a', 0])
+  })
+  test("should apply contains limits", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      contains: { type: 'number' },
+      minContains: 2,
+      maxContains: 3
+    })
+    expect(enforcer.validate([1, 'a']).errors[0]?.keyword).toBe('minContains')
+    expect(enforcer.validate([1, 2, 3, 4]).errors[0]?.keyword).toBe('maxContains')
+    expect(enforcer.coerce?.([1, 'a', 2, 3, 4])).toEqual([1, 'a', 2, 3])
+  })
+})
+
+describe("object property keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const schema = {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      age: { type: 'integer', minimum: 0 },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['name', 'age'],
+    additionalProperties: false
+  }
+  test("should report invalid properties by path", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ name: 'a', age: 1 }).errors.length).toBe(0)
+    expect(enforcer.validate({ name: 'a', age: 1, tags: ['x', 2] }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'type',
+      target: 2,
+      instancePath: ['tags', 1]
+    }))
+  })
+  test("should report the schema path of nested failures", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ name: 'a', age: -1 }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'minimum',
+      instancePath: ['age'],
+      schemaPath: ['properties', 'age']
+    }))
+    expect(enforcer.validate({ name: 'a', age: 1, tags: [2] }).errors[0]?.schemaPath).toEqual(['properties', 'tags', 'items'])
+    expect(enforcer.validate(1).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'type',
+      instancePath: [],
+      schemaPath: []
+    }))
+  })
+  test("should report the schema path of shared subschemas by property", () => {
+    const name = { type: 'string' }
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { first: name, last: name },
+      patternProperties: { '^x': name, '^x-': name }
+    })
+    expect(enforcer.validate({ first: 'a', last: 1 }).errors[0]?.schemaPath).toEqual(['properties', 'last'])
+    expect(enforcer.validate({ 'x-a': 1 }).errors[0]?.schemaPath).toEqual(['patternProperties', '^x'])
+    const validation = collectAllErrors(() => enforcer.validate({ 'x-a': 1 }))
+    expect(validation.errors.map(error => error.schemaPath)).toEqual([
+      ['patternProperties', '^x'],
+      ['patternProperties', '^x-']
+    ])
+  })
+  test("should group errors by instance path", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { 'a/b': { type: 'string' } },
+      required: ['name', 'age']
+    })
+    const groups = groupErrorsByInstancePath(enforcer.validate({ 'a/b': 1 }))
+    expect(Object.keys(groups)).toEqual(['/a~1b'])
+    expect(groups['/a~1b'][0]?.keyword).toBe('type')
+    expect(Object.keys(groupErrorsByInstancePath(enforcer.validate({})))).toEqual(['/name', '/age'])
+  })
+  test("should report missing required keys", () => {
+    const enforcer = enforcerFactory.process(schema)
+    const errors = enforcer.validate({}).errors
+    expect(errors.map(error => error.instancePath)).toEqual([['name'], ['age']])
+    expect(errors[0]?.keyword).toBe('required')
+  })
+  test("should report disallowed extra keys", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ name: 'a', age: 1, extra: true }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'additionalProperties',
+      instancePath: ['extra']
+    }))
+  })
+  test("should coerce properties recursively", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.coerce?.({ age: '-4', tags: 'x', extra: true })).toEqual({
+      name: '',
+      age: 0,
+      tags: ['x']
+    })
+  })
+  test("should optionally keep disallowed extras", () => {
+    const keepingFactory = new JSONSchemaEnforcerFactory()
+    const typeRule = keepingFactory.keywordHandler.rules.find(rule => rule.keyword === 'type') as JSONSchemaTypeRule
+    typeRule.typeRules.object.typedKeywords = new SequentialKeywordEnforcerFactory(
+      createJSONSchemaObjectRules(false)
+    )
+    const enforcer = keepingFactory.process(schema)
+    expect(enforcer.coerce?.({ name: 'a', age: 1, extra: true })).toEqual({ name: 'a', age: 1, extra: true })
+  })
+  test("should ignore inherited property names", () => {
+    const enforcer = enforcerFactory.process({ type: 'object', properties: { name: { type: 'string' } } })
+    expect(enforcer.validate({ constructor: 'x' }).errors).toEqual([])
+    expect(enforcer.coerce?.({ constructor: 'x' })).toEqual({ constructor: 'x' })
+    const requiringEnforcer = enforcerFactory.process({ type: 'object', required: ['toString'] })
+    expect(requiringEnforcer.validate({}).errors[0]?.instancePath).toEqual(['toString'])
+  })
+})
+
+describe("advanced object keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should apply pattern properties", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      patternProperties: { '^n_': { type: 'number' } },
+      additionalProperties: false
+    })
+    expect(enforcer.validate({ n_a: 1 }).errors.length).toBe(0)
+    expect(enforcer.validate({ n_a: 'x' }).errors[0]?.instancePath).toEqual(['n_a'])
+    expect(enforcer.validate({ other: 1 }).errors[0]?.keyword).toBe('additionalProperties')
+    expect(enforcer.coerce?.({ n_a: '2', other: 1 })).toEqual({ n_a: 2 })
+  })
+  test("should rename or drop invalid property names", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      propertyNames: { type: 'string', maxLength: 3 }
+    })
+    expect(enforcer.validate({ abcd: 1 }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'maxLength',
+      target: 'abcd',
+      instancePath: ['abcd']
+    }))
+    expect(enforcer.coerce?.({ abc: 1, abcd: 2, xyzw: 3 })).toEqual({ abc: 1, xyz: 3 })
+  })
+  test("should limit property counts", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { a: { type: 'number' }, b: { type: 'string' } },
+      required: ['a'],
+      minProperties: 2,
+      maxProperties: 2
+    })
+    expect(enforcer.validate({ a: 1 }).errors[0]?.keyword).toBe('minProperties')
+    expect(enforcer.validate({ a: 1, b: 'x', c: 2 }).errors[0]?.keyword).toBe('maxProperties')
+    expect(enforcer.coerce?.({ a: 1 })).toEqual({ a: 1, b: '' })
+    expect(enforcer.coerce?.({ c: 2, a: 1, d: 3 })).toEqual({ c: 2, a: 1 })
+  })
+  test("should fill in dependent required properties", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { card: { type: 'string' }, billing: { type: 'string' } },
+      dependentRequired: { card: ['billing'] }
+    })
+    expect(enforcer.validate({}).errors.length).toBe(0)
+    expect(enforcer.validate({ card: 'x' }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'dependentRequired',
+      instancePath: ['billing']
+    }))
+    expect(enforcer.coerce?.({ card: 'x' })).toEqual({ card: 'x', billing: '' })
+  })
+  test("should apply dependent schemas", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      dependentSchemas: {
+        card: { properties: { cvv: { type: 'integer' } }, required: ['cvv'] }
+      }
+    })
+    expect(enforcer.validate({ cvv: 'x' }).errors.length).toBe(0)
+    expect(enforcer.validate({ card: 'x' }).errors[0]?.keyword).toBe('required')
+    expect(enforcer.coerce?.({ card: 'x' })).toEqual({ card: 'x', cvv: 0 })
+  })
+  test("should ignore inherited property names", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { toString: { type: 'string' } },
+      dependentRequired: { toString: ['x'] },
+      dependentSchemas: { valueOf: { required: ['y'] } },
+      propertyNames: { type: 'string', maxLength: 11 },
+      minProperties: 1
+    })
+    expect(enforcer.validate({ a: 1 }).errors).toEqual([])
+    expect(enforcer.coerce?.({})).toEqual({ toString: '' })
+    expect(enforcer.coerce?.({ constructors: 1 })).toEqual({ constructor: 1 })
+  })
+  test("should keep __proto__ keys as own properties", () => {
+    const source = JSON.parse('{"__proto__":{"x":1},"a":"2"}')
+    const schemas = [
+      { type: 'object', properties: { a: { type: 'number' } } },
+      { type: 'object', propertyNames: { maxLength: 9 } },
+      { type: 'object', maxProperties: 2 },
+      { type: 'object', minProperties: 3, properties: { b: { type: 'number' } } },
+      { type: 'object', dependentRequired: { a: ['c'] } },
+      { type: 'object', unevaluatedProperties: { type: 'object' } }
+    ]
+    for (const schema of schemas) {
+      const result = enforcerFactory.process(schema).coerce?.(source)
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      expect(Object.keys(result)).toContain('__proto__')
+      expect(result.x).toBeUndefined()
+    }
+  })
+  test("should skip inherited enumerable properties", () => {
+    const source = Object.create({ inherited: 'x' })
+    source.a = 1
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { a: { type: 'number' } },
+      propertyNames: { maxLength: 1 }
+    })
+    expect(enforcer.validate(source).errors).toEqual([])
+    expect(Object.keys(enforcer.coerce?.(source))).toEqual(['a'])
+  })
+})
+
+describe("enum keyword", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should check membership", () => {
+    const enforcer = enforcerFactory.process({ enum: ['a', { b: 1 }] })
+    expect(enforcer.validate({ b: 1 }).errors.length).toBe(0)
+    expect(enforcer.validate('c').errors[0]).toEqual(expect.objectContaining({
+      keyword: 'enum',
+      target: 'c'
+    }))
+  })
+  test("should coerce to the closest member", () => {
+    const enforcer = enforcerFactory.process({ enum: ['Red', 'Green', 1, 10] })
+    expect(enforcer.coerce?.('green')).toEqual('Green')
+    expect(enforcer.coerce?.(8)).toEqual(10)
+    expect(enforcer.coerce?.('2')).toEqual(1)
+    expect(enforcer.coerce?.(null)).toEqual('Red')
+  })
+  test("should work alongside type", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', enum: [1, 5] })
+    expect(enforcer.validate(5).errors.length).toBe(0)
+    expect(enforcer.coerce?.('4')).toEqual(5)
+  })
+})
+
+describe("composition keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should merge allOf validations and chain coercions", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'number',
+      allOf: [
+        { minimum: 0 },
+        { maximum: 10 }
+      ]
+    })
+    expect(enforcer.validate(5).errors.length).toBe(0)
+    expect(enforcer.validate(11).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'maximum',
+      schemaPath: ['allOf', 1]
+    }))
+    expect(enforcer.coerce?.('-3')).toBe(0)
+    expect(enforcer.coerce?.('30')).toBe(10)
+  })
+  test("should coerce anyOf values using the best branch", () => {
+    const enforcer = enforcerFactory.process({
+      anyOf: [
+        { type: 'string' },
+        { type: 'number', maximum: 10 }
+      ]
+    })
+    expect(enforcer.validate('a').errors.length).toBe(0)
+    expect(enforcer.validate(12).errors[0]?.schemaPath).toEqual(['anyOf', 1])
+    expect(enforcer.coerce?.(12)).toBe(10)
+  })
+  test("should report multiple oneOf matches", () => {
+    const enforcer = enforcerFactory.process({
+      oneOf: [
+        { type: 'number' },
+        { type: 'integer' }
+      ]
+    })
+    expect(enforcer.validate(1.5).errors.length).toBe(0)
+    expect(enforcer.validate(1).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'oneOf',
+      schemaPath: ['oneOf', 1]
+    }))
+    expect(enforcer.validate('a').errors[0]?.keyword).toBe('type')
+  })
+  test("should apply type specific keywords in subschemas without a type", () => {
+    const enforcer = enforcerFactory.process({
+      allOf: [
+        { minLength: 2 },
+        { minimum: 5 }
+      ]
+    })
+    expect(enforcer.validate('ab').errors.length).toBe(0)
+    expect(enforcer.validate(7).errors.length).toBe(0)
+    expect(enforcer.validate('a').errors[0]?.keyword).toBe('minLength')
+    expect(enforcer.validate(3).errors[0]?.keyword).toBe('minimum')
+    expect(enforcer.coerce?.(3)).toBe(5)
+    expect(enforcer.validate(true).errors.length).toBe(0)
+    expect(enforcerFactory.process({ not: { minimum: 5 } }).validate(7).errors[0]?.keyword).toBe('not')
+  })
+  test("should fail not when the subschema matches", () => {
+    const enforcer = enforcerFactory.process({ not: { type: 'string' } })
+    expect(enforcer.validate(1).errors.length).toBe(0)
+    expect(enforcer.validate('a').errors[0]).toEqual(expect.objectContaining({
+      keyword: 'not',
+      value: { type: 'string' }
+    }))
+  })
+})
+
+describe("conditional keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const schema = {
+    type: 'object',
+    if: {
+      properties: { country: { const: 'US' } },
+      required: ['country']
+    },
+    then: { required: ['zip'] },
+    else: { required: ['postcode'] }
+  }
+  test("should apply the branch picked by the condition", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ country: 'US', zip: '1' }).errors.length).toBe(0)
+    expect(enforcer.validate({ country: 'US' }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'required',
+      instancePath: ['zip'],
+      schemaPath: ['then']
+    }))
+    expect(enforcer.validate({ country: 'FR' }).errors[0]?.instancePath).toEqual(['postcode'])
+  })
+  test("should coerce using the selected branch", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.coerce?.({ country: 'US' })).toEqual({ country: 'US', zip: null })
+    expect(enforcer.coerce?.({ country: 'FR' })).toEqual({ country: 'FR', postcode: null })
+  })
+})
+
+describe("schema references", () => {
+  const schema = {
+    $id: 'https://example.com/schemas/customer',
+    type: 'object',
+    properties: {
+      address: { $ref: '#/$defs/Address' },
+      tier: { $ref: '#tier' },
+      contact: { $ref: 'contact' }
+    },
+    $defs: {
+      Address: {
+        type: 'object',
+        properties: { city: { type: 'string' } },
+        required: ['city']
+      },
+      Tier: {
+        $anchor: 'tier',
+        oneOf: [
+          { title: 'Basic', const: 'basic' },
+          { title: 'Premium', const: 'premium' }
+        ]
+      }
+    }
+  }
+  test("should resolve local pointers and anchors", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    expect(enforcer.validate({ address: {} }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'required',
+      instancePath: ['address', 'city']
+    }))
+    expect(enforcer.validate({ tier: 'gold' }).errors[0]?.instancePath).toEqual(['tier'])
+    expect(enforcer.coerce?.({ address: { city: 1 } })).toEqual({ address: { city: '1' } })
+  })
+  test("should resolve relative URIs through the registry", () => {
+    const registry = new JSONSchemaRegistry()
+    registry.add({ $id: 'https://example.com/schemas/contact', type: 'string', format: 'email' })
+    const enforcer = new JSONSchemaEnforcerFactory(registry).process(schema)
+    expect(enforcer.validate({ contact: 'a@example.com' }).errors.length).toBe(0)
+    expect(enforcer.validate({ contact: 'a' }).errors[0]?.keyword).toBe('format')
+  })
+  test("should report unresolved references", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process({ $ref: '#/$defs/Missing' })
+    expect(enforcer.validate(1).errors[0]).toEqual(expect.objectContaining({
+      keyword: '$ref',
+      value: '#/$defs/Missing'
+    }))
+    expect(getJSONPointerTarget({ $defs: {} }, '/constructor')).toBeUndefined()
+    expect(getJSONPointerTarget({ $defs: {} }, '/$defs/toString')).toBeUndefined()
+  })
+  test("should split referenced branches into options", () => {
+    const optionsFactory = new JSONSchemaOptionsFactory()
+    const options = optionsFactory.process({ ...schema, $ref: '#/$defs/Tier' })
+    expect(options.map(option => option.label)).toEqual(['Basic', 'Premium'])
+    expect(options[1].value.coerce?.(null)).toBe('premium')
+  })
+  test("should resolve nested references within options", () => {
+    const optionsFactory = new JSONSchemaOptionsFactory()
+    const options = optionsFactory.process({
+      $defs: {
+        Name: { type: 'string' },
+        A: { type: 'object', properties: { name: { $ref: '#/$defs/Name' } } },
+        B: { type: 'object', properties: { size: { type: 'number' } } }
+      },
+      oneOf: [
+        { $ref: '#/$defs/A' },
+        { $ref: '#/$defs/B', title: 'Bee' },
+        { type: 'object', properties: { alias: { $ref: '#/$defs/Name' } } }
+      ]
+    })
+    expect(options[1].label).toBe('Bee')
+    expect(options[0].value.validate({ name: 'Al' }).errors.length).toBe(0)
+    expect(options[0].value.validate({ name: 1 }).errors[0]?.keyword).toBe('type')
+    expect(options[1].value.validate({ size: 2 }).errors.length).toBe(0)
+    expect(options[1].value.validate({ size: 'x' }).errors[0]?.keyword).toBe('type')
+    expect(options[2].value.validate({ alias: 'Al' }).errors.length).toBe(0)
+  })
+})
+
+describe("recursive schemas", () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      label: { type: 'string' },
+      children: {
+        type: 'array',
+        items: { $ref: '#' }
+      }
+    },
+    required: ['label']
+  }
+  test("should build recursive enforcers once", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    const tree = {
+      label: 'root',
+      children: [{ label: 'a', children: [{ label: 'b' }] }]
+    }
+    expect(enforcer.validate(tree).errors.length).toBe(0)
+    expect(enforcer.validate({ label: 'root', children: [{ children: [{}] }] }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'required',
+      instancePath: ['children', 0, 'children', 0, 'label']
+    }))
+    expect(enforcer.coerce?.({ label: 1, children: [{ label: 2 }] })).toEqual({
+      label: '1',
+      children: [{ label: '2' }]
+    })
+  })
+  test("should throw on cyclic values", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    const cyclic: Record<string, any> = { label: 'root', children: [] }
+    cyclic.children.push(cyclic)
+    expect(() => enforcer.validate(cyclic)).toThrow(CyclicValueError)
+    expect(() => enforcer.coerce?.(cyclic)).toThrow(CyclicValueError)
+  })
+  test("should report coercion of cyclic values against non-recursive schemas", () => {
+    const cyclic: Record<string, any> = {}
+    cyclic.self = cyclic
+    const report = getCoercionReport(new JSONSchemaEnforcerFactory().process({ type: 'object' }), cyclic)
+    expect(report.value).toBe(cyclic)
+    expect(report.changes).toEqual([])
+  })
+})
+
+describe("default keyword", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should use the default for missing or unusable values", () => {
+    const enforcer = enforcerFactory.process({ type: 'number', default: 5 })
+    expect(enforcer.coerce?.(undefined)).toBe(5)
+    expect(enforcer.coerce?.('abc')).toBe(5)
+    expect(enforcer.coerce?.('7')).toBe(7)
+    const patterned = enforcerFactory.process({ type: 'string', pattern: '^a', default: 'abc' })
+    expect(patterned.coerce?.('xyz')).toBe('abc')
+  })
+  test("should clone defaults", () => {
+    const schema = { type: 'array', default: [1] }
+    const enforcer = enforcerFactory.process(schema)
+    const value = enforcer.coerce?.(undefined)
+    expect(value).toEqual([1])
+    expect(value).not.toBe(schema.default)
+  })
+  test("should fill in nested properties and items", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        tags: {
+          type: 'array',
+          items: { type: 'string', default: 'misc' },
+          default: []
+        }
+      }
+    })
+    expect(enforcer.coerce?.({})).toEqual({ tags: [] })
+    expect(enforcer.coerce?.({ tags: [undefined, 'a'] })).toEqual({ tags: ['misc', 'a'] })
+  })
+  test("should report invalid defaults without using them", () => {
+    const enforcer = enforcerFactory.process({ type: 'string', minLength: 3, default: 'a' })
+    expect(enforcer.validate('abc').errors[0]).toEqual(expect.objectContaining({
+      keyword: 'default',
+      value: 'a',
+      priority: -1
+    }))
+    expect(enforcer.coerce?.(undefined)).not.toBe('a')
+    const optional = enforcerFactory.process({
+      type: 'object',
+      properties: { size: { type: 'integer', minimum: 1, default: 0 } }
+    })
+    expect(optional.coerce?.({})).toEqual({})
+    const padded = enforcerFactory.process({
+      type: 'array',
+      minItems: 2,
+      items: { type: 'string', minLength: 3, default: 'a' }
+    })
+    expect(padded.coerce?.([])).not.toContain('a')
+  })
+  test("should repair nested values once per level", () => {
+    let reads = 0
+    const leaf = {}
+    Object.defineProperty(leaf, 'x', {
+      enumerable: true,
+      get: () => {
+        reads++
+        return '5'
+      }
+    })
+    let schema: Record<string, any> = {
+      type: 'object',
+      properties: { x: { type: 'number', default: 0 } },
+      default: {}
+    }
+    let value: Record<string, any> = leaf
+    for (let i = 0; i < 16; i++) {
+      schema = { type: 'object', properties: { a: schema }, default: {} }
+      value = { a: value }
+    }
+    const report = getCoercionReport(enforcerFactory.process(schema), value)
+    expect(reads).toBeLessThan(1000)
+    expect(report.changes.map((change) => change.instancePath.length)).toEqual([17])
+  })
+  test("should not treat invalid defaults as failures in nested checks", () => {
+    const invalid = { type: 'number', default: 'x' }
+    const properties = enforcerFactory.process({
+      type: 'object',
+      properties: { a: invalid, b: { type: 'number' } }
+    })
+    expect(properties.validate({ a: 1, b: 'y' }).errors.map((error) => [error.keyword, error.instancePath])).toEqual([
+      ['default', ['a']],
+      ['type', ['b']]
+    ])
+    expect(enforcerFactory.process({ not: invalid }).validate(1).errors[0]?.keyword).toBe('not')
+    const parser = new KeywordErrorLogValidationParser()
+    expect(parser.isValid(enforcerFactory.process({ oneOf: [invalid, { type: 'string' }] }).validate(1))).toBe(true)
+    const conditional = enforcerFactory.process({ if: invalid, then: { minimum: 5 } })
+    expect(conditional.validate(1).errors[0]?.keyword).toBe('minimum')
+    const contains = enforcerFactory.process({ type: 'array', contains: invalid })
+    expect(parser.isValid(contains.validate([1]))).toBe(true)
+    const fork = enforcerFactory.process({ type: ['number', 'string'], default: true })
+    expect(fork.validate(1).errors.map((error) => error.keyword)).toEqual(['default'])
+    const unevaluated = enforcerFactory.process({
+      type: 'object',
+      properties: { a: invalid },
+      unevaluatedProperties: false
+    })
+    expect(unevaluated.validate({ a: 1 }).errors.map((error) => error.keyword)).toEqual(['default'])
+  })
+})
+
+describe("dialects", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  test("should treat draft 4 exclusive limits as flags", () => {
+    const enforcer = enforcerFactory.process({
+      $schema: 'http://json-schema.org/draft-04/schema#',
+      type: 'number',
+      minimum: 0,
+      exclusiveMinimum: true
+    })
+    expect(enforcer.validate(0).errors[0]?.keyword).toBe('minimum')
+    expect(enforcer.validate(1).errors.length).toBe(0)
+  })
+  test("should support array form items before 2020-12", () => {
+    const schema = {
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'array',
+      items: [{ type: 'string' }],
+      additionalItems: { type: 'number' }
+    }
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate(['a', 1]).errors.length).toBe(0)
+    expect(enforcer.validate(['a', 'b']).errors[0]?.instancePath).toEqual([1])
+    const latest = enforcerFactory.process({ ...schema, $schema: undefined })
+    expect(latest.validate(['a', 'b']).errors.length).toBe(0)
+  })
+  test("should apply draft 7 dependencies", () => {
+    const enforcer = enforcerFactory.process({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'object',
+      dependencies: {
+        card: ['billing'],
+        billing: { required: ['zip'] }
+      }
+    })
+    expect(enforcer.validate({ card: 1 }).errors[0]?.instancePath).toEqual(['billing'])
+    expect(enforcer.validate({ billing: 1 }).errors[0]?.instancePath).toEqual(['zip'])
+  })
+  test("should resolve draft 7 definitions", () => {
+    const enforcer = enforcerFactory.process({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      definitions: { name: { type: 'string' } },
+      $ref: '#/definitions/name'
+    })
+    expect(enforcer.validate(1).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'type',
+      schemaPath: ['$ref']
+    }))
+  })
+  test("should ignore keywords added after draft 7", () => {
+    const enforcer = enforcerFactory.process({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      type: 'array',
+      contains: { type: 'number' },
+      minContains: 2,
+      maxContains: 1
+    })
+    expect(enforcer.validate([1]).errors.length).toBe(0)
+    expect(enforcer.validate(['a']).errors[0]?.keyword).toBe('contains')
+  })
+  test("should resolve draft 4 ids", () => {
+    const enforcer = enforcerFactory.process({
+      $schema: 'http://json-schema.org/draft-04/schema#',
+      id: 'https://example.com/draft4/root',
+      definitions: {
+        name: { id: 'name', type: 'string' },
+        count: { id: '#count', type: 'number' }
+      },
+      properties: {
+        name: { $ref: 'name' },
+        count: { $ref: '#count' }
+      }
+    })
+    expect(enforcer.validate({ name: 'a', count: 1 }).errors.length).toBe(0)
+    expect(enforcer.validate({ name: 1 }).errors[0]?.instancePath).toEqual(['name'])
+    expect(enforcer.validate({ count: 'a' }).errors[0]?.instancePath).toEqual(['count'])
+  })
+  test("should use the configured fallback dialect", () => {
+    const factory = new JSONSchemaEnforcerFactory()
+    factory.fallbackDialect = factory.dialects[JSON_SCHEMA_DRAFT_URIS.draft04]
+    const enforcer = factory.process({ type: 'number', minimum: 0, exclusiveMinimum: true })
+    expect(enforcer.validate(0).errors.length).toBe(1)
+  })
+  test("should support custom dialects", () => {
+    const factory = new JSONSchemaEnforcerFactory()
+    const dialect = factory.fallbackDialect.extend(
+      'https://example.com/dialect',
+      [
+        {
+          keyword: 'minimum',
+          getEnforcerFor: (schema: Record<string, any>) => new KeywordValueEnforcer(
+            'minimum',
+            schema.minimum,
+            (value: number) => value >= schema.minimum * 2
+          )
+        }
+      ],
+      ['maximum']
+    )
+    factory.addDialect(dialect)
+    const enforcer = factory.process({
+      $schema: 'https://example.com/dialect',
+      type: 'integer',
+      minimum: 2,
+      maximum: 0
+    })
+    expect(enforcer.validate(3).errors[0]?.keyword).toBe('minimum')
+    expect(enforcer.validate(4).errors.length).toBe(0)
+    expect(dialect).toBeInstanceOf(JSONSchemaDialect)
+  })
+})
+
+describe("unevaluated keywords", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const schema = {
+    $defs: {
+      named: { type: 'object', properties: { name: { type: 'string' } } }
+    },
+    allOf: [{ $ref: '#/$defs/named' }],
+    properties: { age: { type: 'number' } },
+    type: 'object',
+    unevaluatedProperties: false
+  }
+  test("should reject properties no subschema evaluated", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ name: 'a', age: 1 }).errors.length).toBe(0)
+    expect(enforcer.validate({ name: 'a', extra: true }).errors[0]).toEqual(expect.objectContaining({
+      keyword: 'unevaluatedProperties',
+      instancePath: ['extra']
+    }))
+  })
+  test("should strip unevaluated properties on coercion", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.coerce?.({ name: 'a', extra: true })).toEqual({ name: 'a' })
+  })
+  test("should count properties evaluated by passing anyOf and conditional branches", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      anyOf: [
+        { properties: { a: { type: 'number' } } },
+        { properties: { b: { type: 'number' } } }
+      ],
+      if: { properties: { kind: { const: 'x' } }, required: ['kind'] },
+      then: { properties: { x: { type: 'number' } } },
+      unevaluatedProperties: { type: 'string' }
+    })
+    expect(enforcer.validate({ a: 1, b: 2, kind: 'x', x: 3, c: 'c' }).errors.length).toBe(0)
+    expect(enforcer.validate({ a: 1, x: 3 }).errors[0]?.instancePath).toEqual(['x'])
+  })
+  test("should apply to unevaluated items", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'array',
+      allOf: [{ prefixItems: [{ type: 'string' }] }],
+      unevaluatedItems: { type: 'number' }
+    })
+    expect(enforcer.validate(['a', 1, 2]).errors.length).toBe(0)
+    expect(enforcer.validate(['a', 'b']).errors[0]?.instancePath).toEqual([1])
+    expect(enforcer.coerce?.(['a', '2'])).toEqual(['a', 2])
+  })
+  test("should work alongside a default", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { a: {} },
+      unevaluatedProperties: false,
+      default: { a: 1 }
+    })
+    expect(enforcer.validate({ a: 1, b: 2 }).errors[0]?.keyword).toBe('unevaluatedProperties')
+    expect(enforcer.coerce?.({ b: 2 })).toEqual({})
+    expect(enforcer.coerce?.(undefined)).toEqual({ a: 1 })
+  })
+  test("should be ignored before 2019-09", () => {
+    const enforcer = enforcerFactory.process({
+      ...schema,
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      definitions: schema.$defs,
+      allOf: [{ $ref: '#/definitions/named' }]
+    })
+    expect(enforcer.validate({ name: 'a', extra: true }).errors.length).toBe(0)
+  })
+})
+
+describe("annotation collection", () => {
+  const collector = new JSONSchemaAnnotationCollector(new JSONSchemaEnforcerFactory())
+  const schema = {
+    title: 'User',
+    type: 'object',
+    properties: {
+      id: { type: 'integer', readOnly: true },
+      'legacy/name': { type: 'string', deprecated: true, examples: ['Ann'] },
+      tags: {
+        type: 'array',
+        items: { type: 'string', description: 'Tag name', default: 'new' }
+      }
+    },
+    allOf: [
+      { properties: { id: { title: 'ID' } } }
+    ]
+  }
+  test("should map annotations by instance location", () => {
+    const annotations = collector.collect(schema, { id: 1, 'legacy/name': 'Ann', tags: ['a'] })
+    expect(annotations['']).toEqual({ title: ['User'] })
+    expect(annotations['/id']).toEqual({ readOnly: [true], title: ['ID'] })
+    expect(annotations['/legacy~1name']).toEqual({ deprecated: [true], examples: [['Ann']] })
+    expect(annotations['/tags/0']).toEqual({ default: ['new'], description: ['Tag name'] })
+  })
+  test("should skip locations that weren't reached", () => {
+    const annotations = collector.collect(schema, { id: 1 })
+    expect(annotations['/tags/0']).toBeUndefined()
+  })
+  test("should collect metadata for invalid values", () => {
+    const annotations = collector.collect({ ...schema, readOnly: true, required: ['id'] }, {})
+    expect(annotations['']).toEqual({ title: ['User'], readOnly: [true] })
+    expect(collector.collect(schema, { id: 'x', tags: ['a'] })['']).toEqual({ title: ['User'] })
+  })
+  test("should only collect the requested keywords", () => {
+    const titles = new JSONSchemaAnnotationCollector(new JSONSchemaEnforcerFactory(), ['title'])
+    expect(titles.collect(schema, { id: 1 })).toEqual({
+      '': { title: ['User'] },
+      '/id': { title: ['ID'] }
+    })
+  })
+})
+
+describe("output formats", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const formatter = new JSONSchemaOutputFormatter(enforcerFactory.registry)
+  const schema = {
+    $id: 'https://example.com/order',
+    $defs: { count: { type: 'integer', minimum: 1 } },
+    allOf: [
+      { type: 'number' },
+      { $ref: '#/$defs/count' }
+    ]
+  }
+  test("should provide a flag", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(formatter.format(enforcer.validate(0), 'flag')).toEqual({ valid: false })
+    expect(formatter.format(enforcer.validate(1), 'flag')).toEqual({ valid: true })
+  })
+  test("should list errors with their locations", () => {
+    const enforcer = enforcerFactory.process({ allOf: [{ type: 'string' }, false], not: { type: 'number' } })
+    expect(formatter.format(enforcer.validate(1))).toEqual({
+      valid: false,
+      errors: [
+        {
+          valid: false,
+          keywordLocation: '/allOf/0/type',
+          instanceLocation: '',
+          error: 'must be of type string'
+        }
+      ]
+    })
+    expect(formatter.format(enforcer.validate('a')).errors?.[0]?.keywordLocation).toEqual('/allOf/1')
+  })
+  test("should provide absolute locations through references", () => {
+    const enforcer = enforcerFactory.process(schema)
+    const output = formatter.format(enforcer.validate(0), 'basic', schema)
+    expect(output.errors?.[0]).toEqual(expect.objectContaining({
+      keywordLocation: '/allOf/1/$ref/minimum',
+      absoluteKeywordLocation: 'https://example.com/order#/$defs/count/minimum'
+    }))
+  })
+  test("should nest errors by schema location", () => {
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { a: { type: 'number' } },
+      anyOf: [{ properties: { a: { minimum: 2 } } }],
+      title: 'Test'
+    })
+    const verbose = formatter.format(enforcer.validate({ a: 3 }), 'verbose')
+    expect(verbose.valid).toBe(true)
+    expect(verbose.annotations?.find((unit) => unit.keywordLocation === '/anyOf')).toEqual({
+      valid: true,
+      keywordLocation: '/anyOf',
+      instanceLocation: '',
+      annotations: [
+        {
+          valid: true,
+          keywordLocation: '/anyOf/0',
+          instanceLocation: '',
+          annotations: [
+            {
+              valid: true,
+              keywordLocation: '/anyOf/0/properties',
+              instanceLocation: '',
+              annotation: ['a']
+            }
+          ]
+        }
+      ]
+    })
+    const detailed = formatter.format(enforcer.validate({ a: 3 }), 'detailed')
+    expect(detailed.annotations?.find((unit) => unit.keywordLocation === '/anyOf/0/properties')).toBeDefined()
+    const nested = formatter.format(enforcer.validate({ a: 'x' }), 'detailed')
+    expect(nested).toEqual(expect.objectContaining({ keywordLocation: '', instanceLocation: '' }))
+  })
+  test("should produce serializable output", () => {
+    const enforcer = enforcerFactory.process(schema)
+    const output = formatter.format(enforcer.validate({}), 'verbose', schema)
+    expect(JSON.parse(JSON.stringify(output))).toEqual(output)
+  })
+})
+
+describe("error messages", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const enforcer = enforcerFactory.process({
+    type: 'object',
+    properties: {
+      age: { type: 'integer', minimum: 18 },
+      role: { enum: ['admin', 'user'] }
+    }
+  })
+  test("should fill in keyword templates", () => {
+    const messages = createJSONSchemaMessageFormatter()
+    const error = enforcer.validate({ age: 4 }).errors[0]
+    expect(messages.process(error)).toBe('must be at least 18')
+    expect(messages.process(enforcer.validate({ role: 'x' }).errors[0])).toBe('must be one of admin, user')
+    expect(messages.process({ keyword: 'unknown', value: 1 })).toBe('is invalid')
+  })
+  test("should use translation catalogs", () => {
+    const messages = createJSONSchemaMessageFormatter('fr-CA')
+    messages.registerTemplates({ minimum: '{instancePath} doit être au moins {minimum}' }, 'fr')
+    const error = enforcer.validate({ age: 4 }).errors[0]
+    expect(messages.process(error)).toBe('/age doit être au moins 18')
+    expect(messages.process(error, 'en')).toBe('must be at least 18')
+    expect(messages.process(enforcer.validate(1).errors[0])).toBe('must be of type object')
+  })
+  test("should accept templates for custom keywords", () => {
+    const messages = createJSONSchemaMessageFormatter()
+    messages.registerTemplates({ evenNumber: 'must be even, got {target}' })
+    expect(messages.process({ keyword: 'evenNumber', value: true, target: 3 })).toBe('must be even, got 3')
+  })
+})
+
+describe("all errors mode", () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      age: { type: 'integer', minimum: 18 },
+      name: { type: 'string', minLength: 2 }
+    },
+    required: ['id']
+  }
+  test("should stop at the first error by default", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    const validation = enforcer.validate({ age: 4, name: '' })
+    expect(validation.errors.length).toBe(1)
+  })
+  test("should report every error when called in all errors mode", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    const validation = collectAllErrors(() => enforcer.validate({ age: 4, name: '' }))
+    const keywords = validation.errors.map(error => error.keyword)
+    expect(keywords).toEqual(['minimum', 'minLength', 'required'])
+  })
+  test("should support enabling all errors mode by factory", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.allErrors = true
+    const enforcer = enforcerFactory.process(schema)
+    const validation = enforcer.validate({ id: 1, age: 4, name: '' })
+    expect(validation.errors.length).toBe(2)
+    expect(enforcer.validate({ id: 1, age: 20, name: 'Al' }).errors.length).toBe(0)
+  })
+  test("should only report the type error for values of the wrong type", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process({ type: 'integer', minimum: 18 })
+    const validation = collectAllErrors(() => enforcer.validate('12'))
+    const keywords = validation.errors.map(error => error.keyword)
+    expect(keywords).toEqual(['type'])
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.coercionPolicy = STRICT_COERCION_POLICY
+    const objectEnforcer = enforcerFactory.process({
+      type: 'object',
+      properties: { a: { type: 'string' } },
+      required: ['a']
+    })
+    const objectValidation = collectAllErrors(() => objectEnforcer.validate('abc'))
+    expect(objectValidation.errors.map(error => error.keyword)).toEqual(['type'])
+  })
+})
+
+describe("coercion reports", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const enforcer = enforcerFactory.process({
+    type: 'object',
+    properties: {
+      age: { type: 'integer', minimum: 18 },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    additionalProperties: false
+  })
+  test("should list nested changes by keyword", () => {
+    const report = getCoercionReport(enforcer, { age: 17.6, tags: [1] })
+    expect(report.value).toEqual({ age: 18, tags: ['1'] })
+    expect(report.changes).toEqual([
+      { instancePath: ['age'], keyword: 'type', before: 17.6, after: 18, reason: 'rounded to a multiple of 1' },
+      { instancePath: ['tags', 0], keyword: 'type', before: 1, after: '1', reason: 'converted to string' }
+    ])
+  })
+  test("should report removed properties", () => {
+    const report = getCoercionReport(enforcer, { foo: 1 })
+    expect(report.value).toEqual({})
+    expect(report.changes).toEqual([
+      {
+        instancePath: ['foo'],
+        keyword: 'additionalProperties',
+        before: 1,
+        after: undefined,
+        reason: 'removed invalid property'
+      }
+    ])
+  })
+  test("should attribute keyword specific fixes", () => {
+    const report = getCoercionReport(enforcer, { age: 4 })
+    expect(report.changes).toEqual([
+      { instancePath: ['age'], keyword: 'minimum', before: 4, after: 18, reason: 'coerced to satisfy minimum' }
+    ])
+  })
+  test("should cover error coercion callbacks", () => {
+    const target = { age: 4, tags: [] }
+    const error = enforcer.validate(target).errors[0]
+    const report = reportCoercion(() => error.coerce?.(target))
+    expect(report.changes.map(change => change.instancePath)).toEqual([['age']])
+  })
+})
+
+describe("coercion policies", () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      count: { type: 'integer', maximum: 10 },
+      code: { type: 'string', maxLength: 3 }
+    }
+  }
+  test("should allow all conversions by default", () => {
+    const enforcer = new JSONSchemaEnforcerFactory().process(schema)
+    expect(enforcer.coerce?.({ count: '12.2', code: 1234 })).toEqual({ count: 10, code: '123' })
+  })
+  test("should leave lossy changes to validation when lossless only", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.coercionPolicy = LOSSLESS_COERCION_POLICY
+    const enforcer = enforcerFactory.process(schema)
+    const value = enforcer.coerce?.({ count: '12', code: 1234 })
+    expect(value).toEqual({ count: 12, code: '1234' })
+    expect(enforcer.coerce?.({ count: '2.5' })).toEqual({ count: '2.5' })
+    expect(enforcer.validate(value).errors[0].keyword).toBe('maximum')
+  })
+  test("should block conversions in strict mode", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.coercionPolicy = STRICT_COERCION_POLICY
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.coerce?.({ count: '2', code: 'abc' })).toEqual({ count: '2', code: 'abc' })
+    expect(enforcer.coerce?.({ count: 12 })).toEqual({ count: 12 })
+  })
+  test("should apply the policy to every keyword", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.coercionPolicy = LOSSLESS_COERCION_POLICY
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: {
+        list: { type: 'array', maxItems: 2, uniqueItems: true },
+        level: { type: 'number', minimum: 1 },
+        color: { enum: ['red', 'blue'] },
+        kind: { const: 'box' },
+        day: { type: 'string', format: 'date' },
+        names: {
+          type: 'object',
+          propertyNames: { maxLength: 2 },
+          additionalProperties: false,
+          maxProperties: 1
+        },
+        size: { type: 'number', default: 1, maximum: 5 },
+        amount: { type: 'number' }
+      }
+    })
+    const value = {
+      list: [1, 1, 2],
+      level: 0,
+      color: 'green',
+      kind: 'crate',
+      day: '2024-01-02T10:00:00Z',
+      names: { abc: 1, de: 2 },
+      size: 9,
+      amount: ''
+    }
+    expect(enforcer.coerce?.(value)).toEqual(value)
+    expect(enforcer.coerce?.({ color: undefined, kind: undefined })).toEqual({ color: 'red', kind: 'box', size: 1 })
+    expect(enforcer.coerce?.({ amount: [7] })).toEqual({ amount: [7], size: 1 })
+  })
+})
+
+describe("parsing profiles", () => {
+  test("should apply the factory's profile to scalar types", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.parsingProfile = createScalarParsingProfile('de')
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: {
+        price: { type: 'number' },
+        active: { type: 'boolean' }
+      }
+    })
+    expect(enforcer.coerce?.({ price: '1.299,99 €', active: 'no' })).toEqual({ price: 1299.99, active: false })
+  })
+})
+
+describe("delimited text formats", () => {
+  test("should coerce parsed pieces to their subschemas", () => {
+    const enforcerFactory = new JSONSchemaEnforcerFactory()
+    enforcerFactory.textFormats = {
+      array: { delimiter: ',', trim: true },
+      object: { delimiter: '&', pathSeparator: '.' }
+    }
+    const enforcer = enforcerFactory.process({
+      type: 'object',
+      properties: {
+        page: { type: 'integer' },
+        ids: { type: 'array', items: { type: 'number' } },
+        range: {
+          type: 'object',
+          properties: { min: { type: 'number' } }
+        }
+      }
+    })
+    expect(enforcer.coerce?.('page=2&ids=1, 2&range.min=5')).toEqual({
+      page: 2,
+      ids: [1, 2],
+      range: { min: 5 }
+    })
+  })
+})
+
+describe("extended types", () => {
+  const enforcerFactory = new JSONSchemaEnforcerFactory()
+  const typeRule = enforcerFactory.keywordHandler.rules.find(rule => rule.keyword === 'type') as JSONSchemaTypeRule
+  Object.assign(typeRule.typeRules, createJSONSchemaExtendedTypeRules())
+  const schema = {
+    type: 'object',
+    properties: {
+      createdAt: { type: 'date' },
+      tags: { type: 'set' },
+      total: { type: ['bigint', 'null'] }
+    }
+  }
+  test("should validate custom types", () => {
+    const enforcer = enforcerFactory.process(schema)
+    expect(enforcer.validate({ createdAt: new Date(0), tags: new Set(), total: null }).errors).toEqual([])
+    const errors = enforcer.validate({ createdAt: '1970-01-01T00:00:00.000Z' }).errors
+    expect(errors[0]).toEqual(expect.objectContaining({
+      keyword: 'type',
+      value: 'date',
+      instancePath: ['createdAt']
+    }))
+  })
+  test("should coerce to custom types", () => {
+    const enforcer = enforcerFactory.process(schema)
+    const report = reportCoercion(() => enforcer.coerce?.({
+      createdAt: '1970-01-02T00:00:00.000Z',
+      tags: ['a', 'b'],
+      total: '42'
+    }))
+    expect(report.value).toEqual({
+      createdAt: new Date(86400000),
+      tags: new Set(['a', 'b']),
+      total: BigInt(42)
+    })
+    expect(report.changes.map((change) => change.reason)).toEqual([
+      'converted to date',
+      'converted to set',
+      'converted to bigint'
+    ])
+  })
+})
+
 describe("JSONSchemaOptionsFactory", () => {
   const optionsFactory = new JSONSchemaOptionsFactory()
   describe("process", () => {